@@ -1,4 +1,8 @@
 import { randomUUID, type UUID } from "crypto";
+import fs from "node:fs/promises";
+import type http from "node:http";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
 
 import type WebSocket from "ws";
 
@@ -9,10 +13,27 @@ import Message, {
   AtBlock,
   AtallBlock,
   FaceBlock,
+  ImageBlock,
+  QuoteBlock,
+  RecordBlock,
+  VideoBlock,
+  RpsBlock,
+  DiceBlock,
+  ShakeBlock,
+  PokeBlock,
+  ShareBlock,
+  ContactBlock,
+  LocationBlock,
+  MusicBlock,
+  XmlBlock,
+  JsonBlock,
+  ForwardBlock,
+  ForwardNode,
   type MessageBlock,
 } from "yuzai/message";
 import logger from "yuzai/logger";
 import { importExtension } from "yuzai/extensions";
+import { getConfigFromFile, checkConfigFileExists, copyDefaultConfigFile } from "yuzai/config";
 import type * as Onebot11 from "yuzai/extensions/onebot_11_types";
 import type {
   InfoChannel,
@@ -21,11 +42,53 @@ import type {
   InfoUserGroup,
   InfoUserGuild,
   InfoUserPersonal,
+  PlatformInfo,
+  Target,
 } from "yuzai/types";
 import type Bot from "yuzai/bot";
 
+import { parseCQCode, toCQCode } from "./onebot/cqcode.ts";
+
 const { addWsPath } = (await importExtension("ws")) as typeof import("yuzai/extensions/ws");
 
+interface OneBotv11Config {
+  /** 发送消息的格式，array 为消息段数组，string 为 CQ 码字符串 */
+  readonly messageFormat: "array" | "string";
+  /** 发送本地文件的方式，local 为 file:// 路径，remote 为 base64:// 编码，auto 按照对端地址判断 */
+  readonly fileMode: "auto" | "local" | "remote";
+}
+
+if (!checkConfigFileExists("OneBotv11"))
+  copyDefaultConfigFile("OneBotv11", "adapters/builtin/config/OneBotv11.toml");
+const config: OneBotv11Config = {
+  messageFormat: "array",
+  fileMode: "auto",
+  ...getConfigFromFile<OneBotv11Config>("OneBotv11"),
+};
+
+/**
+ * 获取 API 请求失败的原因
+ * @param error sendApi 拒绝的错误，超时为 Error，返回码错误为附带响应的请求
+ */
+function getApiErrorMessage(error: unknown) {
+  if (error instanceof Error) return error.message;
+  const response = (error as { error?: Onebot11.Onebot11Response & Record<string, unknown> })
+    ?.error;
+  return String(response?.wording ?? response?.message ?? `返回码 ${response?.retcode}`);
+}
+
+/**
+ * 获取语音、视频引用的本地文件路径，判断方式与 `ImageBlock.from` 相同
+ * @param value file:// URL、绝对路径或以 `./`、`../` 开头的路径
+ * @returns 本地文件的绝对路径，不是本地文件时返回 undefined
+ */
+function toLocalFilePath(value?: string) {
+  if (!value) return undefined;
+  if (value.startsWith("file://")) return fileURLToPath(value);
+  if (path.isAbsolute(value) || /^\.\.?[\\/]/.test(value)) return path.resolve(value);
+  return undefined;
+}
+
 export default class OneBotv11Adapter extends Adapter {
   readonly id = "onebotv11";
   readonly name = "OneBotv11";
@@ -40,15 +103,18 @@ export default class OneBotv11Adapter extends Adapter {
   requests = new Map<UUID, any>();
   /** 超时时间 */
   timeout = 60000;
+  /** OneBot 实现是否与雨仔运行在同一台机器上，是则本地文件以 file:// 发送，否则以 base64:// 发送 */
+  local: boolean;
 
   /**
    * 构造函数
    * @param ws WebSocket 实例
-   * @param path 路径
+   * @param local OneBot 实现是否与雨仔运行在同一台机器上
    */
-  constructor(ws: WebSocket & { sendMessage: (data: object) => void }) {
+  constructor(ws: WebSocket & { sendMessage: (data: object) => void }, local = false) {
     super();
     this._ws = ws;
+    this.local = local;
   }
 
   /**
@@ -60,9 +126,13 @@ export default class OneBotv11Adapter extends Adapter {
       addWsPath(
         path,
         // 当 WebSocketServer 接收到对应路径的升级请求时触发回调
-        (ws: WebSocket & { sendMessage: (data: object) => void }) => {
-          // 创建适配器实例
-          const adapter = new OneBotv11Adapter(ws);
+        (ws: WebSocket & { sendMessage: (data: object) => void }, req: http.IncomingMessage) => {
+          // 创建适配器实例，未配置文件发送方式时通过对端地址判断 OneBot 实现是否在本机
+          const local =
+            config.fileMode === "auto"
+              ? ["127.0.0.1", "::1", "::ffff:127.0.0.1"].includes(req.socket.remoteAddress ?? "")
+              : config.fileMode === "local";
+          const adapter = new OneBotv11Adapter(ws, local);
           // 注册新机器人
           this.newBot(adapter);
           // 返回适配器处理消息的函数，在收到 WebSocket 消息时会调用
@@ -244,14 +314,18 @@ export default class OneBotv11Adapter extends Adapter {
         };
 
         // 匿名消息应添加到 platfrom 信息中
+        const platformInfo: Record<string, unknown> = {};
         switch (event.sub_type) {
           case "anonymous":
-            (messageBuilder.platform.qq as { isAnonymous: boolean }).isAnonymous = true;
+            platformInfo.isAnonymous = true;
             break;
           case "normal":
-            // messageBuilder.platform.qq.isAnonymous = false;
+            // platformInfo.isAnonymous = false;
             break;
         }
+        // 发送者的群身份随消息下发，判断权限时不需要再查询群成员
+        if ("role" in event.sender && event.sender.role) platformInfo.senderRole = event.sender.role;
+        messageBuilder.setPlatform({ qq: platformInfo });
 
         const group_name = // event.group_name || // QUEST 有实现用的 group_name 吗
           this.bot?.groupList.get(event.group_id.toString())?.groupName;
@@ -303,12 +377,24 @@ export default class OneBotv11Adapter extends Adapter {
     switch (event.notice_type) {
       case "friend_recall":
         logger.info(`好友消息撤回：${event.message_id}`, `${event.self_id} <= ${event.user_id}`);
+        this.bot?.onNotice("notice.friend.recall", {
+          timestamp: event.time,
+          userID: event.user_id.toString(),
+          messageID: event.message_id.toString(),
+        });
         break;
       case "group_recall":
         logger.info(
           `群消息撤回：${event.operator_id} => ${event.user_id} ${event.message_id}`,
           `${event.self_id} <= ${event.group_id}`,
         );
+        this.bot?.onNotice("notice.group.recall", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.user_id.toString(),
+          operatorID: event.operator_id.toString(),
+          messageID: event.message_id.toString(),
+        });
         break;
       case "group_increase": {
         logger.info(
@@ -319,6 +405,12 @@ export default class OneBotv11Adapter extends Adapter {
         if (event.user_id === event.self_id)
           this.bot?.updateGroupMemberList(event.group_id.toString());
         else this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+        this.bot?.onNotice("notice.group.member_join", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.user_id.toString(),
+          operatorID: event.operator_id.toString(),
+        });
         break;
       }
       case "group_decrease": {
@@ -333,6 +425,12 @@ export default class OneBotv11Adapter extends Adapter {
             .get(event.group_id.toString())
             ?.members.delete(event.user_id.toString());
         }
+        this.bot?.onNotice("notice.group.member_leave", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.user_id.toString(),
+          operatorID: event.operator_id.toString(),
+        });
         break;
       }
       case "group_admin":
@@ -341,6 +439,12 @@ export default class OneBotv11Adapter extends Adapter {
           `${event.self_id} <= ${event.group_id}, ${event.user_id}`,
         );
         this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+        this.bot?.onNotice("notice.group.admin", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.user_id.toString(),
+          set: event.sub_type === "set",
+        });
         break;
       case "group_upload":
         logger.info(
@@ -378,25 +482,50 @@ export default class OneBotv11Adapter extends Adapter {
           `群禁言：${event.operator_id} => ${event.user_id} ${event.sub_type} ${event.duration}秒`,
           `${event.self_id} <= ${event.group_id}`,
         );
-        this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+        // user_id 为 0 时表示全员禁言
+        if (event.user_id)
+          this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+        this.bot?.onNotice("notice.group.member_mute", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.user_id ? event.user_id.toString() : undefined,
+          operatorID: event.operator_id.toString(),
+          duration: event.sub_type === "ban" ? event.duration : 0,
+        });
         break;
       case "friend_add":
         logger.info("好友添加", `${event.self_id} <= ${event.user_id}`);
         this.bot?.updateFriendInfo(event.user_id.toString());
+        this.bot?.onNotice("notice.friend.add", {
+          timestamp: event.time,
+          userID: event.user_id.toString(),
+        });
         break;
       case "notify":
         switch (event.sub_type) {
           case "poke":
-            if ("group_id" in event)
+            if ("group_id" in event) {
               logger.info(
                 `群戳一戳：${event.user_id} => ${event.target_id}`,
                 `${event.self_id} <= ${event.group_id}`,
               );
-            else
+              this.bot?.onNotice("notice.group.poke", {
+                timestamp: event.time,
+                groupID: event.group_id.toString(),
+                userID: event.user_id.toString(),
+                targetID: event.target_id.toString(),
+              });
+            } else {
               logger.info(
                 `好友戳一戳：${event.sender_id} => ${event.target_id}`,
                 String(event.self_id),
               );
+              this.bot?.onNotice("notice.friend.poke", {
+                timestamp: event.time,
+                userID: event.sender_id.toString(),
+                targetID: event.target_id.toString(),
+              });
+            }
             break;
           case "honor":
             logger.info(
@@ -404,6 +533,12 @@ export default class OneBotv11Adapter extends Adapter {
               `${event.self_id} <= ${event.group_id}, ${event.user_id}`,
             );
             this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+            this.bot?.onNotice("notice.group.honor", {
+              timestamp: event.time,
+              groupID: event.group_id.toString(),
+              userID: event.user_id.toString(),
+              honor: event.honor_type,
+            });
             break;
           case "title":
             logger.info(
@@ -411,9 +546,21 @@ export default class OneBotv11Adapter extends Adapter {
               `${event.self_id} <= ${event.group_id}, ${event.user_id}`,
             );
             this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+            this.bot?.onNotice("notice.group.title", {
+              timestamp: event.time,
+              groupID: event.group_id.toString(),
+              userID: event.user_id.toString(),
+              title: event.title,
+            });
             break;
           case "lucky_king":
             logger.info(`群红包运气王：${event.user_id}`, `${event.self_id} <= ${event.group_id}`);
+            this.bot?.onNotice("notice.group.lucky_king", {
+              timestamp: event.time,
+              groupID: event.group_id.toString(),
+              userID: event.user_id.toString(),
+              targetID: event.target_id.toString(),
+            });
             break;
           default:
             logger.warn(
@@ -428,6 +575,13 @@ export default class OneBotv11Adapter extends Adapter {
           `${event.self_id} <= ${event.group_id}, ${event.user_id}`,
         );
         this.bot?.updateGroupMemberInfo(event.group_id.toString(), event.user_id.toString());
+        this.bot?.onNotice("notice.group.member_card", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.user_id.toString(),
+          oldCard: event.card_old,
+          newCard: event.card_new,
+        });
         break;
       case "offline_file":
         logger.info(`离线文件：${String(event.file)}`, `${event.self_id} <= ${event.user_id}`);
@@ -462,6 +616,14 @@ export default class OneBotv11Adapter extends Adapter {
           `群精华消息：${event.operator_id} => ${event.sender_id} ${event.sub_type} ${event.message_id}`,
           `${event.self_id} <= ${event.group_id}`,
         );
+        this.bot?.onNotice("notice.group.essence", {
+          timestamp: event.time,
+          groupID: event.group_id.toString(),
+          userID: event.sender_id.toString(),
+          operatorID: event.operator_id.toString(),
+          messageID: event.message_id.toString(),
+          set: event.sub_type === "add",
+        });
         break;
       // case "guild_channel_recall":
       //   logger.info(
@@ -481,6 +643,14 @@ export default class OneBotv11Adapter extends Adapter {
           `子频道更新：${String(event.old_info)} => ${String(event.new_info)}`,
           `${event.self_id} <= ${event.guild_id}-${event.channel_id}, ${event.user_id}`,
         );
+        this.bot?.onNotice("notice.guild.channel_update", {
+          timestamp: event.time,
+          guildID: event.guild_id,
+          channelID: event.channel_id,
+          operatorID: event.operator_id,
+          channel: this.toInfoChannel(event.new_info),
+          oldChannel: this.toInfoChannel(event.old_info),
+        });
         break;
       case "channel_created":
         logger.info(
@@ -488,6 +658,13 @@ export default class OneBotv11Adapter extends Adapter {
           `${event.self_id} <= ${event.guild_id}-${event.channel_id}, ${event.user_id}`,
         );
         this.bot?.getChannelList(event.guild_id);
+        this.bot?.onNotice("notice.guild.channel_create", {
+          timestamp: event.time,
+          guildID: event.guild_id,
+          channelID: event.channel_id,
+          operatorID: event.operator_id,
+          channel: this.toInfoChannel(event.channel_info),
+        });
         break;
       case "channel_destroyed":
         logger.info(
@@ -495,12 +672,31 @@ export default class OneBotv11Adapter extends Adapter {
           `${event.self_id} <= ${event.guild_id}-${event.channel_id}, ${event.user_id}`,
         );
         this.bot?.getChannelList(event.guild_id);
+        this.bot?.onNotice("notice.guild.channel_destroy", {
+          timestamp: event.time,
+          guildID: event.guild_id,
+          channelID: event.channel_id,
+          operatorID: event.operator_id,
+          channel: this.toInfoChannel(event.channel_info),
+        });
         break;
       default:
         logger.warn(`未知通知：${logger.magenta((event as any).raw)}`, (event as any).self_id);
     }
   }
 
+  /**
+   * 将 go-cqhttp 的子频道信息转换为 InfoChannel
+   * @param info 子频道信息
+   */
+  protected toInfoChannel(info: { channel_id: string; channel_name: string }): InfoChannel {
+    return {
+      channelID: info.channel_id,
+      channelName: info.channel_name,
+      platform: { qq: { ...info } },
+    };
+  }
+
   onRequest(event: Onebot11.Onebot11RequestEvent) {
     switch (event.request_type) {
       case "person":
@@ -537,30 +733,156 @@ export default class OneBotv11Adapter extends Adapter {
 
   onebot11MessageToMessageBlocks(message: Onebot11.Onebot11Message) {
     const messageBlocks: MessageBlock[] = [];
-    if (typeof message === "string") {
-    } else {
-      for (const messageSegment of message) {
-        switch (messageSegment.type) {
-          case "text":
-            messageBlocks.push(new TextBlock(messageSegment.data.text));
-            break;
-          case "at":
-            if (messageSegment.data.qq === "all") messageBlocks.push(new AtallBlock());
-            else messageBlocks.push(new AtBlock(messageSegment.data.qq.toString()));
-            break;
-          case "face":
-            messageBlocks.push(new FaceBlock(messageSegment.data.id.toString()));
-            break;
+    // 字符串格式的消息先解析为消息段数组
+    if (typeof message === "string") message = parseCQCode(message);
+    for (const messageSegment of message) {
+      switch (messageSegment.type) {
+        case "text":
+          messageBlocks.push(new TextBlock(messageSegment.data.text));
+          break;
+        case "at":
+          if (messageSegment.data.qq === "all") messageBlocks.push(new AtallBlock());
+          else messageBlocks.push(new AtBlock(messageSegment.data.qq.toString()));
+          break;
+        case "face":
+          messageBlocks.push(new FaceBlock(messageSegment.data.id.toString()));
+          break;
+        case "image": {
+          const { file, url, type } = messageSegment.data;
+          const block = new ImageBlock(file, undefined, undefined, url);
+          messageBlocks.push(type ? block.setPlatform({ qq: { imageType: type } }) : block);
+          break;
+        }
+        case "record":
+          messageBlocks.push(
+            new RecordBlock(messageSegment.data.file, messageSegment.data.url),
+          );
+          break;
+        case "video":
+          messageBlocks.push(new VideoBlock(messageSegment.data.file, messageSegment.data.url));
+          break;
+        case "rps":
+        case "dice": {
+          // go-cqhttp 等实现会在 result 中上报结果
+          const result = (messageSegment.data as { result?: string | number }).result;
+          const value = result === undefined ? undefined : Number(result);
+          messageBlocks.push(
+            messageSegment.type === "rps" ? new RpsBlock(value) : new DiceBlock(value),
+          );
+          break;
+        }
+        case "shake":
+          messageBlocks.push(new ShakeBlock());
+          break;
+        case "poke":
+          messageBlocks.push(
+            new PokeBlock(
+              messageSegment.data.type,
+              messageSegment.data.id.toString(),
+              messageSegment.data.name,
+            ),
+          );
+          break;
+        case "share":
+          messageBlocks.push(
+            new ShareBlock(
+              messageSegment.data.url,
+              messageSegment.data.title,
+              messageSegment.data.content,
+              messageSegment.data.image,
+            ),
+          );
+          break;
+        case "contact":
+          messageBlocks.push(
+            new ContactBlock(
+              messageSegment.data.type === "qq" ? "user" : "group",
+              messageSegment.data.id.toString(),
+            ),
+          );
+          break;
+        case "location":
+          messageBlocks.push(
+            new LocationBlock(
+              Number(messageSegment.data.lat),
+              Number(messageSegment.data.lon),
+              messageSegment.data.title,
+              messageSegment.data.content,
+            ),
+          );
+          break;
+        case "music":
+          if (messageSegment.data.type === "custom") {
+            messageBlocks.push(new MusicBlock("custom", messageSegment.data));
+          } else {
+            messageBlocks.push(
+              new MusicBlock(messageSegment.data.type, { id: messageSegment.data.id }),
+            );
+          }
+          break;
+        case "reply":
+          messageBlocks.push(new QuoteBlock(messageSegment.data.id.toString()));
+          break;
+        case "xml":
+          messageBlocks.push(new XmlBlock(messageSegment.data.data));
+          break;
+        case "json":
+          messageBlocks.push(new JsonBlock(messageSegment.data.data));
+          break;
+        case "forward": {
+          const forwardID = messageSegment.data.id;
+          messageBlocks.push(
+            new ForwardBlock(forwardID, () => this.getForwardMessage(forwardID)),
+          );
+          break;
         }
       }
     }
     return messageBlocks;
   }
 
-  messageToOnebot11Message(message: Message): Onebot11.Onebot11MessageSegment[] {
+  /**
+   * 将图片块转换为 OneBot 的 file 参数
+   *
+   * 网络图片直接使用 URL，本地图片在 OneBot 实现位于本机时使用 file://，否则和内存中的图片一样使用 base64://
+   * 都不是时使用图片 ID，例如收到的图片
+   * @param image 图片块
+   */
+  protected async toOnebot11File(image: ImageBlock) {
+    if (image.url && /^https?:\/\//.test(image.url)) return image.url;
+    if (image.localFilePath && this.local) return pathToFileURL(image.localFilePath).href;
+    if (image.localFilePath || image.buffer) {
+      const buffer = await image.getBuffer();
+      if (buffer) return `base64://${buffer.toString("base64")}`;
+    }
+    return image.id;
+  }
+
+  /**
+   * 将语音块或视频块转换为 OneBot 的 file 参数
+   *
+   * 与图片相同，网络文件直接使用 URL，本地文件在 OneBot 实现位于本机时使用 file://，否则使用 base64://，
+   * 都不是时使用 ID，例如收到的语音和视频
+   * @param block 语音块或视频块
+   */
+  protected async toOnebot11MediaFile(block: RecordBlock | VideoBlock) {
+    if (block.url && /^https?:\/\//.test(block.url)) return block.url;
+    const localFilePath = toLocalFilePath(block.url) ?? toLocalFilePath(block.id);
+    if (localFilePath && this.local) return pathToFileURL(localFilePath).href;
+    if (localFilePath) {
+      try {
+        return `base64://${(await fs.readFile(localFilePath)).toString("base64")}`;
+      } catch (error) {
+        logger.error([`读取文件 ${localFilePath} 失败`, error], this.bot?.id);
+      }
+    }
+    return block.id;
+  }
+
+  async messageToOnebot11Message(message: Message): Promise<Onebot11.Onebot11MessageSegment[]> {
     // TODO 待完成
     const messages: Onebot11.Onebot11MessageSegment[] = [];
-    message.messageBlocks.map((i) => {
+    for (const i of message.messageBlocks) {
       switch (i.type) {
         case "text":
           messages.push({ type: "text", data: { text: i.text } });
@@ -575,16 +897,87 @@ export default class OneBotv11Adapter extends Adapter {
           messages.push({ type: "face", data: { id: Number(i.faceID) } });
           break;
         case "image":
-          messages.push({ type: "image", data: { file: i.id as any } });
+          messages.push({ type: "image", data: { file: await this.toOnebot11File(i) } });
           break;
         case "file":
           // 上传文件需要单独处理
           break;
+        case "quote":
+          if (i.messageID) messages.push({ type: "reply", data: { id: i.messageID } });
+          break;
+        case "record":
+          messages.push({ type: "record", data: { file: await this.toOnebot11MediaFile(i) } });
+          break;
+        case "video":
+          messages.push({ type: "video", data: { file: await this.toOnebot11MediaFile(i) } });
+          break;
+        case "rps":
+        case "dice":
+        case "shake":
+          messages.push({ type: i.type, data: {} });
+          break;
+        case "poke":
+          messages.push({ type: "poke", data: { type: i.pokeType, id: Number(i.pokeID) } });
+          break;
+        case "share":
+          messages.push({
+            type: "share",
+            data: { url: i.url, title: i.title, content: i.content, image: i.image },
+          });
+          break;
+        case "contact":
+          if (i.contactType === "user")
+            messages.push({ type: "contact", data: { type: "qq", id: Number(i.id) } });
+          else messages.push({ type: "contact", data: { type: "group", id: i.id } });
+          break;
+        case "location":
+          messages.push({
+            type: "location",
+            data: { lat: i.latitude, lon: i.longitude, title: i.title, content: i.content },
+          });
+          break;
+        case "music":
+          if (i.source === "custom")
+            messages.push({
+              type: "music",
+              data: {
+                type: "custom",
+                url: i.url ?? "",
+                audio: i.audio ?? "",
+                title: i.title ?? "",
+                content: i.content,
+                image: i.image,
+              },
+            });
+          else messages.push({ type: "music", data: { type: i.source, id: i.id ?? "" } });
+          break;
+        case "xml":
+          messages.push({ type: "xml", data: { data: i.data } });
+          break;
+        case "json":
+          messages.push({ type: "json", data: { data: i.data } });
+          break;
+        case "markdown":
+          // OneBot v11 不支持 Markdown，作为文本发送
+          messages.push({ type: "text", data: { text: i.content } });
+          break;
+        case "forward":
+          // 合并转发需要通过 sendForwardMessage 单独发送
+          break;
       }
-    });
+    }
     return messages;
   }
 
+  /**
+   * 将消息转换为发送时使用的格式，配置了 string 格式时转换为 CQ 码字符串
+   * @param message 消息
+   */
+  async toSendMessage(message: Message): Promise<Onebot11.Onebot11Message> {
+    const segments = await this.messageToOnebot11Message(message);
+    return config.messageFormat === "string" ? toCQCode(segments) : segments;
+  }
+
   makeLog(message: Message) {
     return message.toString().replace(/base64:\/\/.*?(,|]|")/g, "base64://...$1");
   }
@@ -803,7 +1196,7 @@ export default class OneBotv11Adapter extends Adapter {
       (
         await this.sendApi("send_private_msg", {
           user_id: userID,
-          message: this.messageToOnebot11Message(message),
+          message: await this.toSendMessage(message),
         })
       )?.data.message_id as number
     ).toString();
@@ -811,9 +1204,51 @@ export default class OneBotv11Adapter extends Adapter {
 
   async recallMessage(messageID: string) {
     logger.info(`撤回消息：${messageID}`, this.bot?.id);
-    const response = await this.sendApi("delete_msg", { message_id: messageID });
-    if (response?.status !== "ok") {
-      logger.error(`撤回消息失败：${response}`, this.bot?.id);
+    try {
+      await this.sendApi("delete_msg", { message_id: messageID });
+    } catch (error) {
+      logger.error(`撤回消息失败：${getApiErrorMessage(error)}`, this.bot?.id);
+      return false;
+    }
+    return true;
+  }
+
+  async handleFriendRequest(platformInfo: PlatformInfo | undefined, approve: boolean) {
+    const flag = platformInfo?.flag;
+    if (typeof flag !== "string") {
+      logger.error("处理加好友请求失败：缺少请求标识", this.bot?.id);
+      return false;
+    }
+    logger.info(`${approve ? "同意" : "拒绝"}加好友请求：${flag}`, this.bot?.id);
+    try {
+      await this.sendApi("set_friend_add_request", { flag, approve });
+    } catch (error) {
+      logger.error(`处理加好友请求失败：${getApiErrorMessage(error)}`, this.bot?.id);
+      return false;
+    }
+    return true;
+  }
+
+  async handleGroupRequest(
+    platformInfo: PlatformInfo | undefined,
+    approve: boolean,
+    reason?: string,
+  ) {
+    const flag = platformInfo?.flag;
+    if (typeof flag !== "string") {
+      logger.error("处理加群请求失败：缺少请求标识", this.bot?.id);
+      return false;
+    }
+    logger.info(`${approve ? "同意" : "拒绝"}加群请求：${flag}`, this.bot?.id);
+    try {
+      await this.sendApi("set_group_add_request", {
+        flag,
+        sub_type: platformInfo?.subType ?? "add",
+        approve,
+        reason: approve ? undefined : reason,
+      });
+    } catch (error) {
+      logger.error(`处理加群请求失败：${getApiErrorMessage(error)}`, this.bot?.id);
       return false;
     }
     return true;
@@ -902,6 +1337,7 @@ export default class OneBotv11Adapter extends Adapter {
         nickname: i.card,
         sex: i.sex === "unknown" ? undefined : i.sex,
         age: i.age,
+        role: i.role,
       });
     });
     return members;
@@ -941,6 +1377,7 @@ export default class OneBotv11Adapter extends Adapter {
       nickname: response.card,
       sex: response.sex === "unknown" ? undefined : response.sex,
       age: response.age,
+      role: response.role,
     } satisfies InfoUserGroup;
   }
 
@@ -987,7 +1424,7 @@ export default class OneBotv11Adapter extends Adapter {
       (
         await this.sendApi("send_group_msg", {
           group_id: groupID,
-          message: this.messageToOnebot11Message(message),
+          message: await this.toSendMessage(message),
         })
       )?.data.message_id as number
     ).toString();
@@ -1148,7 +1585,7 @@ export default class OneBotv11Adapter extends Adapter {
       await this.sendApi("send_guild_channel_msg", {
         guild_id: guildID,
         channel_id: channelID,
-        message: this.messageToOnebot11Message(message),
+        message: await this.toSendMessage(message),
       })
     )?.data.message_id as string | undefined;
   }
@@ -1162,51 +1599,86 @@ export default class OneBotv11Adapter extends Adapter {
   //   if (Buffer.isBuffer(file)) return `base64://${file.toString("base64")}`;
   //   return file;
   // }
-  // async getForwardMessage(messageID: string) {
-  //   const response = (
-  //     await this.sendApi("get_forward_msg", {
-  //       messageID,
-  //     })
-  //   )?.data.messages;
-  //   const messages: Message[] = [];
-  //   for (const i of response) {
-  //     const message = this.makeMessage(i);
-  //     message.messageID = i.message_id;
-  //     message.sender = {
-  //       type: "group",
-  //       userID: i.user_id,
-  //       nickname: i.sender.nickname,
-  //     };
-  //     messages.push(message);
-  //   }
-  //   return messages;
-  // }
+  /**
+   * 获取合并转发消息的内容
+   * @param forwardID 合并转发 ID
+   */
+  async getForwardMessage(forwardID: string) {
+    const response = (await this.sendApi("get_forward_msg", { id: forwardID }))?.data as
+      | {
+          // OneBot v11 标准为 message，go-cqhttp 为 messages
+          message?: Onebot11.Onebot11CustomNodeMessageSegment[];
+          messages?: {
+            content: Onebot11.Onebot11Message;
+            sender: { user_id: number; nickname: string };
+            time: number;
+          }[];
+        }
+      | undefined;
+    if (!response) return undefined;
 
-  // async sendFriendForwardMessage(message: Message, userID: string) {
-  //   logger.info(
-  //     `发送好友转发消息：${this.makeLog(message)}`,
-  //     `${this.bot?.id} => ${userID}`,
-  //     true
-  //   );
-  //   return (
-  //     await this.sendApi("send_private_forward_msg", {
-  //       user_id: userID,
-  //       messages: await this.makeOnebotForwardMessageArray(message),
-  //     })
-  //   )?.data.message_id;
-  // }
+    const nodes: ForwardNode[] = [];
+    for (const i of response.message ?? []) {
+      const messageBuilder = new MessageBuilder();
+      messageBuilder.messageBlocks = this.onebot11MessageToMessageBlocks(i.data.content);
+      nodes.push(
+        new ForwardNode(messageBuilder.build(), {
+          name: i.data.nickname,
+          avatarID: i.data.user_id.toString(),
+        }),
+      );
+    }
+    for (const i of response.messages ?? []) {
+      const messageBuilder = new MessageBuilder();
+      messageBuilder.messageBlocks = this.onebot11MessageToMessageBlocks(i.content);
+      messageBuilder.senderID = i.sender.user_id.toString();
+      messageBuilder.sendTimestampMs = i.time * 1000;
+      nodes.push(
+        new ForwardNode(messageBuilder.build(), {
+          name: i.sender.nickname,
+          avatarID: i.sender.user_id.toString(),
+          time: i.time * 1000,
+        }),
+      );
+    }
+    return nodes;
+  }
 
-  // async sendGroupForwardMsg(data, msg) {
-  //   logger.info(
-  //     `发送群转发消息：${this.makeLog(msg)}`,
-  //     `${data.self_id} => ${data.group_id}`,
-  //     true
-  //   );
-  //   return data.bot.sendApi("send_group_forward_msg", {
-  //     group_id: data.group_id,
-  //     messages: await this.makeForwardMessage(msg),
-  //   });
-  // }
+  async sendForwardMessage(nodes: ForwardNode[], target: Target) {
+    const messages: (
+      | Onebot11.Onebot11NodeMessageSegment
+      | Onebot11.Onebot11CustomNodeMessageSegment
+    )[] = await Promise.all(
+      nodes.map(async (node) =>
+        node.messageID
+          ? { type: "node" as const, data: { id: node.messageID } }
+          : {
+              type: "node" as const,
+              data: {
+                user_id: node.avatarID ?? this.bot?.id ?? "",
+                nickname: node.name ?? this.bot?.nickname ?? "",
+                content: await this.toSendMessage(node.message),
+              },
+            },
+      ),
+    );
+    const log = nodes.map((node) => this.makeLog(node.message)).join(" | ");
+    switch (target.type) {
+      case "person":
+        logger.info(`发送好友转发消息：${log}`, `${this.bot?.id} => ${target.userID}`);
+        return (
+          await this.sendApi("send_private_forward_msg", { user_id: target.userID, messages })
+        )?.data.message_id?.toString();
+      case "group":
+        logger.info(`发送群转发消息：${log}`, `${this.bot?.id} => ${target.groupID}`);
+        return (
+          await this.sendApi("send_group_forward_msg", { group_id: target.groupID, messages })
+        )?.data.message_id?.toString();
+      default:
+        logger.error("频道不支持发送合并转发消息", this.bot?.id);
+        return undefined;
+    }
+  }
 
   // setProfile(data, profile) {
   //   logger.info(`设置资料：${Bot.String(profile)}`, data.self_id);
@@ -1452,23 +1924,6 @@ export default class OneBotv11Adapter extends Adapter {
   //     .finally(this.getFriendMap.bind(this, data));
   // }
 
-  // setFriendAddRequest(data, flag, approve, remark) {
-  //   return data.bot.sendApi("set_friend_add_request", {
-  //     flag,
-  //     approve,
-  //     remark,
-  //   });
-  // }
-
-  // setGroupAddRequest(data, flag, approve, reason, sub_type = "add") {
-  //   return data.bot.sendApi("set_group_add_request", {
-  //     flag,
-  //     sub_type,
-  //     approve,
-  //     reason,
-  //   });
-  // }
-
   // getGroupHonorInfo(data) {
   //   return data.bot.sendApi("get_group_honor_info", {
   //     group_id: data.group_id,
@@ -0,0 +1,110 @@
+/**
+ * @description OneBot 字符串格式消息的 CQ 码转换
+ *
+ * CQ 码格式为 `[CQ:类型,参数=值,参数=值]`，文本中的 `&`、`[`、`]` 和参数值中的 `,` 需要转义。
+ */
+import type * as Onebot11 from "yuzai/extensions/onebot_11_types";
+
+/** 消息段的必要参数，缺少时 CQ 码会作为文本保留 */
+const requiredParams: Record<string, string[]> = {
+  face: ["id"],
+  at: ["qq"],
+  image: ["file"],
+  record: ["file"],
+  video: ["file"],
+  poke: ["type", "id"],
+  share: ["url", "title"],
+  contact: ["type", "id"],
+  location: ["lat", "lon"],
+  music: ["type"],
+  reply: ["id"],
+  forward: ["id"],
+  xml: ["data"],
+  json: ["data"],
+};
+
+/**
+ * 转义 CQ 码中的特殊字符
+ * @param text 要转义的内容
+ * @param isParam 是否为 CQ 码的参数值，参数值中还需要转义逗号
+ */
+export function escapeCQ(text: string, isParam = false) {
+  text = text.replace(/&/g, "&amp;").replace(/\[/g, "&#91;").replace(/]/g, "&#93;");
+  return isParam ? text.replace(/,/g, "&#44;") : text;
+}
+
+/**
+ * 反转义 CQ 码中的特殊字符
+ * @param text 要反转义的内容
+ */
+export function unescapeCQ(text: string) {
+  return text
+    .replace(/&#44;/g, ",")
+    .replace(/&#91;/g, "[")
+    .replace(/&#93;/g, "]")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * 判断 CQ 码的参数是否满足消息段的要求
+ * @param type 消息段类型
+ * @param data 参数
+ */
+function hasRequiredParams(type: string, data: Record<string, string>) {
+  const required = [...(requiredParams[type] ?? [])];
+  // 自定义音乐分享需要链接、音频和标题，其他音乐分享需要歌曲 ID
+  if (type === "music") required.push(...(data.type === "custom" ? ["url", "audio", "title"] : ["id"]));
+  return required.every((key) => data[key]);
+}
+
+/**
+ * 将 CQ 码字符串解析为消息段数组
+ *
+ * 参数值都会被解析为字符串，CQ 码之外的内容为文本消息段，缺少必要参数的 CQ 码也作为文本保留
+ * @param message CQ 码字符串
+ */
+export function parseCQCode(message: string) {
+  const segments: Onebot11.Onebot11MessageSegment[] = [];
+  let text = "";
+  const pushText = () => {
+    if (text) segments.push({ type: "text", data: { text } });
+    text = "";
+  };
+  let lastIndex = 0;
+  for (const match of message.matchAll(/\[CQ:([^,\]]+)((?:,[^,\]]*)*)]/g)) {
+    text += unescapeCQ(message.slice(lastIndex, match.index));
+    lastIndex = match.index + match[0].length;
+    const [code, type, params] = match;
+    const data: Record<string, string> = {};
+    for (const param of params.split(",").slice(1)) {
+      const index = param.indexOf("=");
+      if (index === -1) data[param] = "";
+      else data[param.slice(0, index)] = unescapeCQ(param.slice(index + 1));
+    }
+    if (!hasRequiredParams(type, data)) {
+      text += unescapeCQ(code);
+      continue;
+    }
+    pushText();
+    segments.push({ type, data } as unknown as Onebot11.Onebot11MessageSegment);
+  }
+  text += unescapeCQ(message.slice(lastIndex));
+  pushText();
+  return segments;
+}
+
+/**
+ * 将消息段数组转换为 CQ 码字符串
+ * @param segments 消息段数组
+ */
+export function toCQCode(segments: Onebot11.Onebot11MessageSegment[]) {
+  return segments
+    .map((segment) => {
+      if (segment.type === "text") return escapeCQ(segment.data.text);
+      const params = Object.entries(segment.data)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => `,${key}=${escapeCQ(String(value), true)}`);
+      return `[CQ:${segment.type}${params.join("")}]`;
+    })
+    .join("");
+}
@@ -169,12 +169,6 @@ class StdioAdapter extends Adapter {
     logger.info(`撤回消息: ${messageID}`, this.id);
     return true;
   }
-
-  async sendForwardMessage(send = this.sendPrivateMessage, messages: Message[]) {
-    const messageIDs = [];
-    for (const message of messages) messageIDs.push(await send(message));
-    return messageIDs;
-  }
 }
 
 export default StdioAdapter;
@@ -56,7 +56,10 @@ koaApp.use(async (ctx) => {
 const wsHandlers = new Map<
   string,
   {
-    onConnectHandler: (ws: WebSocket & { sendMessage: (data: object) => void }) => WsHandler;
+    onConnectHandler: (
+      ws: WebSocket & { sendMessage: (data: object) => void },
+      req: http.IncomingMessage,
+    ) => WsHandler;
     wsHandler?: WsHandler | undefined;
   }
 >();
@@ -199,6 +202,7 @@ async function handleUpgrade(req: http.IncomingMessage, socket: Socket, head: Bu
     if (handler) {
       handler.wsHandler = handler.onConnectHandler(
         ws as WebSocket & { sendMessage: (data: object) => void },
+        req,
       );
     }
 
@@ -315,7 +319,10 @@ async function loadServer(serverType: "http" | "https" = "http") {
 // 添加WebSocket路径
 function addWsPath(
   path: string,
-  onConnectHandler: (ws: WebSocket & { sendMessage: (data: object) => void }) => WsHandler,
+  onConnectHandler: (
+    ws: WebSocket & { sendMessage: (data: object) => void },
+    req: http.IncomingMessage,
+  ) => WsHandler,
 ) {
   if (!wsHandlers.has(path)) {
     wsHandlers.set(path, { onConnectHandler });
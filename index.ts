@@ -1,7 +1,10 @@
 // 处理几种情况：run，start、stop、restart
-// 这里先只处理 run
-import client from "yuzai/client";
+// run 在前台监督雨仔进程，start、stop、restart 在后台启动、停止、重启雨仔
+// worker 为监督进程启动的雨仔进程
+// 客户端只在 worker 中加载，监督进程和命令不加载机器人相关的模块
 import config from "yuzai/config";
+import * as daemon from "yuzai/daemon";
+import { getLogger } from "yuzai/logger";
 
 // 设置进程标题
 process.title = `雨仔 v${config.system.version} by Alex11`;
@@ -10,4 +13,26 @@ process.title = `雨仔 v${config.system.version} by Alex11`;
 // TODO 理论上说应该按当地时间设置时区？
 process.env.TZ = "Asia/Shanghai";
 
-client.run();
+const command = process.argv[2] ?? "run";
+switch (command) {
+  case "run":
+    await daemon.supervise();
+    break;
+  case "start":
+    await daemon.start();
+    break;
+  case "stop":
+    await daemon.stop();
+    break;
+  case "restart":
+    await daemon.restart();
+    break;
+  case "worker": {
+    const { default: client } = await import("yuzai/client");
+    client.run();
+    break;
+  }
+  default:
+    getLogger().error(`未知的命令 ${command}，可用的命令：run、start、stop、restart`);
+    process.exitCode = 1;
+}
@@ -1,7 +1,7 @@
 import { EventEmitter } from "events";
 
 import Bot from "yuzai/bot";
-import Message from "yuzai/message";
+import Message, { type ForwardNode } from "yuzai/message";
 import type {
   InfoChannel,
   InfoGroup,
@@ -9,6 +9,8 @@ import type {
   InfoUserGroup,
   InfoUserGuild,
   InfoUserPersonal,
+  PlatformInfo,
+  Target,
 } from "yuzai/types";
 import client from "yuzai/client";
 
@@ -282,6 +284,37 @@ abstract class Adapter extends EventEmitter {
     guildID: string,
     channelID: string,
   ): Promise<string | undefined>;
+
+  /**
+   * 发送合并转发消息，不支持时由 Bot 逐条发送或合并为一条消息发送
+   * @param nodes - 合并转发的消息列表
+   * @param target - 发送目标
+   * @returns 发送成功后返回消息 ID，否则返回 undefined
+   */
+  sendForwardMessage?(nodes: ForwardNode[], target: Target): Promise<string | undefined>;
+
+  // ==================== 请求相关接口 ====================
+
+  /**
+   * 处理加好友请求
+   * @param platformInfo - 请求事件的平台信息，由适配器在发送请求事件时提供
+   * @param approve - 是否同意请求
+   * @returns 如果处理成功，返回 true；否则返回 false
+   */
+  handleFriendRequest?(platformInfo: PlatformInfo | undefined, approve: boolean): Promise<boolean>;
+
+  /**
+   * 处理加群请求或邀请
+   * @param platformInfo - 请求事件的平台信息，由适配器在发送请求事件时提供
+   * @param approve - 是否同意请求
+   * @param reason - 拒绝理由，仅在拒绝时有效
+   * @returns 如果处理成功，返回 true；否则返回 false
+   */
+  handleGroupRequest?(
+    platformInfo: PlatformInfo | undefined,
+    approve: boolean,
+    reason?: string,
+  ): Promise<boolean>;
 }
 
 export default Adapter;
@@ -4,9 +4,12 @@ import type { UUID } from "node:crypto";
 import { EventEmitter } from "node:events";
 
 import Adapter from "yuzai/adapter";
+import config from "yuzai/config";
 import { getLogger } from "yuzai/logger";
-import Plugin from "yuzai/plugin";
-import Message, { MessageBuilder } from "yuzai/message";
+import { onBotConnect } from "yuzai/system";
+import scheduler from "yuzai/scheduler";
+import Plugin, { interactionScopes, type MessageTrigger, type NoticeTrigger } from "yuzai/plugin";
+import Message, { ForwardNode, MessageBuilder, TextBlock, type MessageBlock } from "yuzai/message";
 import {
   MessageEvent,
   ConnectEvent,
@@ -424,10 +427,17 @@ class Bot extends EventEmitter {
   }
   /**
    * 获取群成员信息
+   *
+   * 适配器支持时只查询这一个成员，否则更新整个群的成员列表
    * @param groupID 群 ID
    * @param userID 成员 ID
    */
   async getGroupMemberInfo(groupID: string, userID: string): Promise<InfoUserGroup | undefined> {
+    if (this._adapter?.getGroupMemberInfo) {
+      const memberInfo = await this._adapter.getGroupMemberInfo(groupID, userID);
+      if (memberInfo) this._groupList.get(groupID)?.members.set(userID, memberInfo);
+      return memberInfo;
+    }
     await this.updateGroupMemberList(groupID);
     return this.groupList.get(groupID)?.members.get(userID);
   }
@@ -789,16 +799,78 @@ class Bot extends EventEmitter {
   get plugins() {
     return this._plugins;
   }
-  /** 机器人使用的插件列表 */
+  /** 机器人使用的插件列表，按插件优先级从高到低排序 */
   get pluginList(): Plugin[] {
-    return [...this._plugins.values()];
+    return [...this._plugins.values()].sort((a, b) => b.priority - a.priority);
+  }
+
+  /** 全局分发计划，插件变化时清空，下次分发时重新生成 */
+  protected _dispatchPlan?: {
+    message: { plugin: Plugin; trigger: MessageTrigger }[];
+    notice: { plugin: Plugin; trigger: NoticeTrigger<NoticeEventIDs | string> }[];
+  };
+  /**
+   * 全局分发计划
+   *
+   * 合并所有插件的消息触发器和事件触发器，先按插件优先级、再按触发器优先级从高到低排序，
+   * 优先级相同时保持插件和触发器的添加顺序
+   */
+  get dispatchPlan() {
+    if (!this._dispatchPlan) {
+      const plugins = this.pluginList;
+      const compare = (
+        a: { plugin: Plugin; trigger: { priority: number } },
+        b: { plugin: Plugin; trigger: { priority: number } },
+      ) => b.plugin.priority - a.plugin.priority || b.trigger.priority - a.trigger.priority;
+      this._dispatchPlan = {
+        message: plugins
+          .flatMap((plugin) => plugin.messageTriggers.map((trigger) => ({ plugin, trigger })))
+          .sort(compare),
+        notice: plugins
+          .flatMap((plugin) => plugin.noticeTriggers.map((trigger) => ({ plugin, trigger })))
+          .sort(compare),
+      };
+      this.logger.debug(
+        `生成分发计划：消息触发器[${this._dispatchPlan.message.length}个]，事件触发器[${this._dispatchPlan.notice.length}个]`,
+      );
+    }
+    return this._dispatchPlan;
+  }
+  /**
+   * 清空全局分发计划，会在加载器添加、重新加载或删除插件，以及插件添加触发器或修改优先级时调用
+   */
+  invalidateDispatchPlan() {
+    this._dispatchPlan = undefined;
   }
 
   /** 机器人的主人 ID 列表 */
   _masters: string[] = [];
-  /** 机器人的主人 ID 列表 */
+  /**
+   * 机器人的主人 ID 列表
+   *
+   * 包括运行时添加的主人和 bot.toml 中为此 Bot 配置的主人，未单独配置时使用 `all` 的配置
+   */
   get masters() {
-    return this._masters;
+    const masters = config.bot.masters[this.id] ?? config.bot.masters["all"] ?? [];
+    return [...new Set([...this._masters, ...masters.map(String)])];
+  }
+  /**
+   * 获取此 Bot 在指定群生效的群组配置
+   *
+   * 合并顺序为：默认配置、Bot 默认配置、群配置、Bot 群配置
+   * @param groupID 群 ID，不指定时返回此 Bot 的默认配置
+   */
+  getGroupConfig(groupID = "default") {
+    return config.bot.getGroupConfig(this.id, groupID);
+  }
+
+  /**
+   * 判断用户是否为机器人的主人
+   * @param userID 用户 ID
+   */
+  isMaster(userID?: string) {
+    if (!userID) return false;
+    return this.masters.includes(userID);
   }
 
   /**
@@ -835,51 +907,183 @@ class Bot extends EventEmitter {
   /**
    * Bot 连接时调用，会在 Bot 新建时自动调用，也可以由 Adapter 调用
    *
-   * 会生成一个 ConnectEvent 对象并发送给所有插件
+   * 会先恢复插件中持久化的交互，然后生成一个 ConnectEvent 对象并发送给所有插件，
+   * 最后开始补执行错过的定时任务，并通知主人上次退出前的系统操作结果
    */
   async onConnect() {
     const connectEvent = new ConnectEvent(this);
     for (const plugin of this.pluginList) {
+      await plugin.restoreInteractions(this);
       plugin.onConnect(connectEvent);
     }
+    scheduler.ready();
+    // noinspection ES6MissingAwait
+    onBotConnect(this);
   }
 
   /**
    * 接收到消息时调用
    *
-   * 会生成一个 MessageEvent 对象并发送给所有 plugin
+   * 会生成一个 MessageEvent 对象，优先交给插件中进行中的交互处理，
+   * 然后按照全局分发计划依次交给各个消息触发器
    *
-   * 如果有插件返回 true，则不会继续发送给其他插件
+   * 如果有触发器返回 true，则不会继续发送给其他触发器
    * @param message 消息对象
    */
   async onMessage(message: Message) {
     const messageEvent = new MessageEvent(this, message);
-    for (const plugin of this.pluginList) {
-      if (await plugin.onMessage(messageEvent)) {
-        return;
+    if (!this.checkAccess(messageEvent)) return;
+    if (!this.preprocessMessage(messageEvent)) return;
+    // 先按照交互范围的优先级，再按照插件优先级查找处理消息的交互
+    for (const scope of interactionScopes) {
+      for (const plugin of this.pluginList) {
+        if (await plugin.handleInteraction(messageEvent, scope)) return;
+      }
+    }
+    for (const { plugin, trigger } of this.dispatchPlan.message) {
+      if (!plugin.isEnabled(this, messageEvent.groupID, trigger)) continue;
+      messageEvent.plugin = plugin;
+      if (await trigger.handle(messageEvent)) return;
+    }
+  }
+
+  /**
+   * 检查消息是否允许分发给插件
+   *
+   * 按照 bot.toml 中的黑白名单与私聊设置过滤消息，主人的消息总是允许分发。
+   * 私聊被禁用时，包含私聊通行字符串的消息仍会被分发，其余消息回复禁用提示后丢弃。
+   * @param event 消息事件
+   * @returns 是否允许分发
+   */
+  protected checkAccess(event: MessageEvent) {
+    const { senderID, target } = event.message;
+    if (this.isMaster(senderID)) return true;
+
+    // 去除配置中的空字符串，默认配置中的 [""] 视为未配置
+    const getList = (list?: readonly string[]) => (list ?? []).filter(Boolean).map(String);
+
+    if (senderID) {
+      if (getList(config.bot.blackUser).includes(senderID)) {
+        this.logger.debug(`用户 ${senderID} 在黑名单中，已忽略消息`);
+        return false;
+      }
+      const whiteUser = getList(config.bot.whiteUser);
+      if (whiteUser.length && !whiteUser.includes(senderID)) {
+        this.logger.debug(`用户 ${senderID} 不在白名单中，已忽略消息`);
+        return false;
+      }
+    }
+
+    if (target?.type === "group") {
+      if (getList(config.bot.blackGroup).includes(target.groupID)) {
+        this.logger.debug(`群 ${target.groupID} 在黑名单中，已忽略消息`);
+        return false;
+      }
+      const whiteGroup = getList(config.bot.whiteGroup);
+      if (whiteGroup.length && !whiteGroup.includes(target.groupID)) {
+        this.logger.debug(`群 ${target.groupID} 不在白名单中，已忽略消息`);
+        return false;
+      }
+    }
+
+    if (target?.type === "person" && config.bot.disablePrivate) {
+      const text = event.message.toString();
+      if (getList(config.bot.disableAdopt).some((adopt) => text.includes(adopt))) return true;
+      if (config.bot.disableMsg)
+        event
+          .reply(config.bot.disableMsg)
+          .catch((error) => this.logger.error(["回复私聊禁用提示失败", error]));
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * 预处理消息，生成供触发器匹配的消息
+   *
+   * 群消息中会去除 @ 机器人的块和开头的机器人别名，并按照群组配置中的 onlyReplyAt
+   * 忽略没有提及机器人的消息。开启 slashToHash 时，会把以 `/` 开头的消息转换为以 `#` 开头。
+   * 原消息不会被修改。
+   * @param event 消息事件
+   * @returns 是否继续分发
+   */
+  protected preprocessMessage(event: MessageEvent) {
+    let messageBlocks: MessageBlock[] = [...event.message.messageBlocks];
+
+    const target = event.message.target;
+    if (target?.type === "group") {
+      const { onlyReplyAt, botAlias } = this.getGroupConfig(target.groupID);
+
+      // 去除 @ 机器人的块
+      messageBlocks = messageBlocks.filter(
+        (block) => !(block.type === "at" && block.targetUserID === this.id),
+      );
+      event.atBot = messageBlocks.length !== event.message.messageBlocks.length;
+
+      // 去除开头的空白和机器人别名
+      const firstBlock = messageBlocks[0];
+      if (firstBlock?.type === "text") {
+        let text = firstBlock.text.trimStart();
+        const alias = (botAlias ?? []).find((alias) => alias && text.startsWith(alias));
+        if (alias) {
+          event.hasAlias = true;
+          text = text.slice(alias.length).trimStart();
+        }
+        if (text !== firstBlock.text) {
+          messageBlocks = text
+            ? [new TextBlock(text), ...messageBlocks.slice(1)]
+            : messageBlocks.slice(1);
+        }
+      }
+
+      const needMention = onlyReplyAt === "notMaster" ? !event.isMaster : Boolean(onlyReplyAt);
+      if (needMention && !event.atBot && !event.hasAlias) return false;
+    }
+
+    // 消息以文本块开头时，把开头的 / 转换为 #
+    if (config.system.slashToHash) {
+      const [firstBlock] = messageBlocks;
+      if (firstBlock?.type === "text" && firstBlock.text.startsWith("/")) {
+        messageBlocks[0] = new TextBlock(`#${firstBlock.text.slice(1)}`);
       }
     }
+
+    event.normalizedMessage = new MessageBuilder(event.message)
+      .setMessageBlocks(messageBlocks)
+      .build();
+    return true;
   }
 
   /**
    * 接收到事件时调用
    *
-   * 会生成一个 NoticeEvent 对象并发给所有 plugin
+   * 会生成一个 NoticeEvent 对象，按照全局分发计划依次交给各个事件触发器
+   *
+   * 如果有触发器返回 true，则不会继续发送给其他触发器
    *
-   * 如果有插件返回 true，则不会继续发送给其他插件
+   * 配置了 `autoFriend` 时，加好友请求会在分发前自动同意
    * @param event 事件对象
    */
   async onNotice<T extends NoticeEventIDs | string>(
     type: T,
     data: NoticeEventData<T>,
-    platformInfo?: PlatformInfo,
+    platformInfo?: PlatformInfo | Record<string, Record<string, unknown>>,
   ) {
     const noticeEvent = new NoticeEvent(this, type, data, platformInfo);
-    for (const plugin of this.pluginList) {
-      if (await plugin.onNotice(noticeEvent)) {
-        return;
+    if (type === "notice.friend.request" && config.bot.autoFriend) {
+      this.logger.info(`自动同意 ${noticeEvent.userID} 的加好友请求`);
+      try {
+        await noticeEvent.approve();
+      } catch (error) {
+        // 自动同意失败不影响插件处理这个请求
+        this.logger.error([`自动同意 ${noticeEvent.userID} 的加好友请求失败`, error]);
       }
     }
+    for (const { plugin, trigger } of this.dispatchPlan.notice) {
+      if (!plugin.isEnabled(this, noticeEvent.groupID, trigger)) continue;
+      if (await trigger.handle(noticeEvent)) return;
+    }
   }
 
   /**
@@ -913,36 +1117,11 @@ class Bot extends EventEmitter {
       message = new MessageBuilder().addTextBlock(message).build();
     }
 
-    // 类型守卫，解析目标
-    const resolveTarget = (
-      target:
-        | Target
-        | { userID: string }
-        | { groupID: string }
-        | { guildID: string; channelID: string },
-    ): Target => {
-      if ("type" in target) {
-        return target;
-      }
-      if ("userID" in target) {
-        return {
-          type: "person",
-          userID: target.userID,
-        };
-      } else if ("groupID" in target) {
-        return {
-          type: "group",
-          groupID: target.groupID,
-        };
-      } else {
-        return {
-          type: "guild",
-          guildID: target.guildID,
-          channelID: target.channelID,
-        };
-      }
-    };
-    const resolvedTarget = resolveTarget(target);
+    const resolvedTarget = this.resolveTarget(target);
+
+    if (message.messageBlocks.some((block) => block.type === "forward")) {
+      return this.sendMessageWithForward(message, resolvedTarget);
+    }
 
     switch (resolvedTarget.type) {
       case "person":
@@ -957,6 +1136,166 @@ class Bot extends EventEmitter {
       // );
     }
   }
+
+  /**
+   * 发送含有合并转发块的消息
+   *
+   * 合并转发块按照合并转发消息发送，前后的其他内容按顺序作为普通消息发送，
+   * 无法获取消息列表的合并转发块按照文本发送
+   * @param message 要发送的消息
+   * @param target 发送目标
+   * @returns 最后一条消息的 ID
+   */
+  protected async sendMessageWithForward(message: Message, target: Target) {
+    if (message.messageBlocks.length > 1) {
+      this.logger.warn("合并转发需要单独发送，消息已按顺序拆分为多条发送");
+    }
+    let messageID: string | undefined;
+    let blocks: MessageBlock[] = [];
+    const sendBlocks = async () => {
+      if (blocks.length)
+        messageID = await this.sendMessage(new Message({ messageBlocks: blocks }), target);
+      blocks = [];
+    };
+    for (const block of message.messageBlocks) {
+      if (block.type !== "forward") {
+        blocks.push(block);
+        continue;
+      }
+      const nodes = await block.getNodes();
+      if (!nodes) {
+        this.logger.warn(`获取合并转发 ${block.id} 的消息列表失败，已按照文本发送`);
+        blocks.push(new TextBlock("[合并转发消息]"));
+        continue;
+      }
+      await sendBlocks();
+      messageID = await this.sendForwardMessage(nodes, target);
+    }
+    await sendBlocks();
+    return messageID;
+  }
+
+  /**
+   * 把消息块中的合并转发展开为文本形式的消息块，嵌套的合并转发也会展开
+   * @param blocks 消息块列表
+   */
+  protected async expandForwardBlocks(blocks: MessageBlock[]) {
+    const expanded: MessageBlock[] = [];
+    for (const block of blocks) {
+      if (block.type !== "forward") {
+        expanded.push(block);
+        continue;
+      }
+      const nodes = await block.getNodes();
+      if (nodes) expanded.push(...(await this.forwardNodesToBlocks(nodes)));
+      else expanded.push(new TextBlock("[合并转发消息]"));
+    }
+    return expanded;
+  }
+
+  /**
+   * 把合并转发的消息列表转换为文本形式的消息块
+   * @param nodes 合并转发的消息列表
+   */
+  protected async forwardNodesToBlocks(nodes: ForwardNode[]): Promise<MessageBlock[]> {
+    const blocks: MessageBlock[] = [];
+    for (const [index, node] of nodes.entries()) {
+      // 每条消息前加上发送者名称，消息之间空一行
+      const name = node.name || node.avatarID;
+      const header = `${index > 0 ? "\n\n" : ""}${name ? `${name}：\n` : ""}`;
+      if (header) blocks.push(new TextBlock(header));
+      blocks.push(...(await this.expandForwardBlocks(node.message.messageBlocks)));
+    }
+    return blocks;
+  }
+
+  /**
+   * 发送合并转发消息
+   *
+   * 适配器不支持合并转发或发送失败时，`fallback` 为 `text` 会把所有消息合并为一条消息发送，
+   * 为 `sequential` 会逐条发送。适配器不支持嵌套的合并转发，嵌套的合并转发会转换为文本
+   * @param nodes 合并转发的消息列表
+   * @param target 发送目标
+   * @param fallback 适配器不支持合并转发时的发送方式，默认为 `text`
+   * @returns 发送的消息 ID，逐条发送时为最后一条消息的 ID
+   */
+  async sendForwardMessage(
+    nodes: ForwardNode[],
+    target:
+      | Target
+      | { userID: string }
+      | { groupID: string }
+      | { guildID: string; channelID: string },
+    fallback: "text" | "sequential" = "text",
+  ) {
+    const resolvedTarget = this.resolveTarget(target);
+    if (this.adapter.sendForwardMessage) {
+      const flattenedNodes: ForwardNode[] = [];
+      for (const node of nodes) {
+        if (!node.message.messageBlocks.some((block) => block.type === "forward")) {
+          flattenedNodes.push(node);
+          continue;
+        }
+        this.logger.warn("合并转发中嵌套的合并转发已转换为文本");
+        const blocks = await this.expandForwardBlocks(node.message.messageBlocks);
+        flattenedNodes.push(
+          new ForwardNode(new Message({ messageBlocks: blocks }), {
+            name: node.name,
+            avatarID: node.avatarID,
+            time: node.time,
+          }),
+        );
+      }
+      const messageID = await this.adapter.sendForwardMessage(flattenedNodes, resolvedTarget);
+      if (messageID !== undefined) return messageID;
+      this.logger.warn(
+        `适配器发送合并转发消息失败，已改为${fallback === "text" ? "合并为一条消息" : "逐条"}发送`,
+      );
+    }
+
+    if (fallback === "sequential") {
+      let messageID: string | undefined;
+      for (const node of nodes) messageID = await this.sendMessage(node.message, resolvedTarget);
+      return messageID;
+    }
+
+    const messageBuilder = new MessageBuilder();
+    messageBuilder.messageBlocks.push(...(await this.forwardNodesToBlocks(nodes)));
+    return this.sendMessage(messageBuilder.build(), resolvedTarget);
+  }
+
+  /**
+   * 解析发送目标
+   * @param target 发送目标，可以只提供用户 ID、群 ID 或频道 ID 和子频道 ID
+   */
+  protected resolveTarget(
+    target:
+      | Target
+      | { userID: string }
+      | { groupID: string }
+      | { guildID: string; channelID: string },
+  ): Target {
+    if ("type" in target) {
+      return target;
+    }
+    if ("userID" in target) {
+      return {
+        type: "person",
+        userID: target.userID,
+      };
+    } else if ("groupID" in target) {
+      return {
+        type: "group",
+        groupID: target.groupID,
+      };
+    } else {
+      return {
+        type: "guild",
+        guildID: target.guildID,
+        channelID: target.channelID,
+      };
+    }
+  }
 }
 
 export default Bot;
@@ -12,12 +12,17 @@ import * as utils from "yuzai/utils";
 import { getLogger } from "yuzai/logger";
 import config from "yuzai/config";
 import { autoImportExtensions } from "yuzai/extensions";
+import { startSystemSchedules } from "yuzai/system";
 
 const logger = getLogger();
 
 class Client extends EventEmitter {
   /** 所有 Bot 实例 */
   private _bots = new Map<UUID, Bot>();
+  /** 所有 Bot 实例 */
+  get bots() {
+    return [...this._bots.values()];
+  }
 
   /** 适配器列表 */
   // @ts-expect-error TS6133 用于存储适配器
@@ -101,6 +106,7 @@ class Client extends EventEmitter {
       (this._adapters = (await loadAdapters()) || new Map()),
       await autoImportExtensions(),
       packageTips(),
+      await startSystemSchedules(),
     ]).then(() => {
       for (const handler of this._onReadyHandlers) {
         handler.onReady();
@@ -144,6 +150,28 @@ class Client extends EventEmitter {
     this._bots.set(UID, new Bot(UID, this._plugins, adapter));
   }
 
+  /**
+   * 插件列表发生变化时调用，使所有 Bot 在下次分发时重新生成分发计划，
+   * 并为新加载的插件恢复持久化的交互
+   */
+  onPluginsChange() {
+    this.invalidateDispatchPlans();
+    for (const bot of this._bots.values()) {
+      for (const plugin of bot.pluginList) {
+        plugin
+          .restoreInteractions(bot)
+          .catch((error) => logger.error([`恢复插件 ${plugin.name} 的交互失败`, error]));
+      }
+    }
+  }
+
+  /**
+   * 使所有 Bot 在下次分发时重新生成分发计划，插件添加触发器或修改优先级时调用
+   */
+  invalidateDispatchPlans() {
+    for (const bot of this._bots.values()) bot.invalidateDispatchPlan();
+  }
+
   /**
    * 保持客户端运行
    */
@@ -0,0 +1,318 @@
+/**
+ * @description 结构化指令，用于声明指令的名称、别名、参数和选项，并从消息中解析出参数
+ *
+ * 指令格式为 `#名称 参数1 参数2 --选项 值`，参数之间用空白分隔，包含空白的参数可以用双引号括起来。
+ * 用双引号括起来的参数不会被视为选项，单独的 `--` 之后的内容都视为位置参数。
+ * @ 块和图片块各自视为一个参数。
+ */
+import lodash from "lodash";
+
+import type { MessageEvent } from "yuzai/event";
+import type Message from "yuzai/message";
+import type { ImageBlock } from "yuzai/message";
+
+/** 参数类型，分别为字符串、数字、@ 的用户和图片 */
+type CommandArgumentType = "string" | "number" | "user" | "image";
+
+/** 指令的位置参数 */
+interface CommandArgument {
+  /** 参数名称 */
+  readonly name: string;
+  /** 参数类型，默认为 `string`，`user` 类型解析为被 @ 用户的 ID */
+  readonly type?: CommandArgumentType;
+  /** 是否可选，可选参数之后的参数也必须是可选的 */
+  readonly optional?: boolean;
+  /** 是否接收剩余的全部文本，只能用于最后一个 `string` 类型的参数，剩余内容中有图片时解析失败 */
+  readonly rest?: boolean;
+  /** 参数描述 */
+  readonly description?: string;
+}
+
+/** 指令的选项 */
+interface CommandFlag {
+  /** 选项名称，使用时为 `--名称` */
+  readonly name: string;
+  /** 选项简写，使用时为 `-简写` */
+  readonly alias?: string;
+  /** 选项类型，默认为 `boolean`，其他类型需要在选项后跟随一个值 */
+  readonly type?: "boolean" | "string" | "number";
+  /** 选项描述 */
+  readonly description?: string;
+}
+
+/** 指令定义 */
+interface CommandDefinition {
+  /** 指令名称，使用时为 `#名称` */
+  readonly name: string;
+  /** 指令别名 */
+  readonly aliases?: readonly string[];
+  /** 位置参数 */
+  readonly args?: readonly CommandArgument[];
+  /** 选项 */
+  readonly flags?: readonly CommandFlag[];
+}
+
+/** 解析后的参数值 */
+type CommandArgumentValue = string | number | ImageBlock;
+
+/** 解析后的选项值 */
+type CommandFlagValue = string | number | boolean;
+
+/** 参数类型对应的值类型 */
+interface CommandArgumentValueTypes {
+  string: string;
+  number: number;
+  user: string;
+  image: ImageBlock;
+}
+
+/** 单个参数解析后的值类型，可选参数可能为 undefined */
+type CommandArgumentValueOf<Argument extends CommandArgument> =
+  | CommandArgumentValueTypes[Argument["type"] extends CommandArgumentType
+      ? Argument["type"]
+      : "string"]
+  | (Argument["optional"] extends true ? undefined : never);
+
+/** 单个选项解析后的值类型，没有使用选项时为 undefined */
+type CommandFlagValueOf<Flag extends CommandFlag> =
+  | (Flag["type"] extends "string" ? string : Flag["type"] extends "number" ? number : boolean)
+  | undefined;
+
+/** 按照指令定义推断出的参数，以参数名称为键 */
+type CommandArgs<Definition extends CommandDefinition> = {
+  [Argument in NonNullable<
+    Definition["args"]
+  >[number] as Argument["name"]]: CommandArgumentValueOf<Argument>;
+};
+
+/** 按照指令定义推断出的选项，以选项名称为键 */
+type CommandFlags<Definition extends CommandDefinition> = {
+  [Flag in NonNullable<Definition["flags"]>[number] as Flag["name"]]: CommandFlagValueOf<Flag>;
+};
+
+/** 使用结构化指令的触发器收到的消息事件，参数和选项的类型由指令定义推断 */
+type CommandEvent<Definition extends CommandDefinition = CommandDefinition> = MessageEvent & {
+  readonly args: CommandArgs<Definition>;
+  readonly flags: CommandFlags<Definition>;
+};
+
+/** 解析结果 */
+type CommandParseResult =
+  | {
+      args: Record<string, CommandArgumentValue | undefined>;
+      flags: Record<string, CommandFlagValue | undefined>;
+    }
+  | { error: string };
+
+/** 消息切分后的单个参数 */
+type Token =
+  | { type: "text"; value: string; quoted?: boolean }
+  | { type: "user"; value: string }
+  | { type: "image"; value: ImageBlock };
+
+/** 参数类型的显示名称 */
+const typeNames: Record<CommandArgumentType, string> = {
+  string: "文本",
+  number: "数字",
+  user: "@用户",
+  image: "图片",
+};
+
+class Command {
+  readonly name: string;
+  readonly aliases: readonly string[];
+  readonly args: readonly CommandArgument[];
+  readonly flags: readonly CommandFlag[];
+
+  /** 匹配指令名称和别名的正则表达式 */
+  readonly regex: RegExp;
+
+  constructor({ name, aliases, args, flags }: CommandDefinition) {
+    this.name = name;
+    this.aliases = aliases ?? [];
+    this.args = args ?? [];
+    this.flags = flags ?? [];
+    const names = [name, ...this.aliases].map((i) => lodash.escapeRegExp(i)).join("|");
+    this.regex = new RegExp(`^#(?:${names})($|\\s+.*)`);
+  }
+
+  /**
+   * 把消息切分为参数
+   * @param message 要切分的消息
+   */
+  private tokenize(message: Message) {
+    const tokens: Token[] = [];
+    // 处理跨文本块的引号时，记录未闭合的文本
+    let quoted: string | undefined;
+    for (const block of message.messageBlocks) {
+      switch (block.type) {
+        case "text":
+          for (const part of block.text.split(/(\s+|")/)) {
+            if (part === '"') {
+              if (quoted === undefined) quoted = "";
+              else {
+                tokens.push({ type: "text", value: quoted, quoted: true });
+                quoted = undefined;
+              }
+            } else if (quoted !== undefined) quoted += part;
+            else if (part.trim()) tokens.push({ type: "text", value: part });
+          }
+          break;
+        case "at":
+          tokens.push({ type: "user", value: block.targetUserID });
+          break;
+        case "image":
+          tokens.push({ type: "image", value: block });
+          break;
+      }
+    }
+    // 未闭合的引号按原文处理
+    if (quoted) tokens.push({ type: "text", value: `"${quoted}` });
+    return tokens;
+  }
+
+  /**
+   * 从消息中解析参数和选项
+   * @param message 要解析的消息，第一个参数应为指令名称
+   * @returns 解析结果，失败时返回错误信息
+   */
+  parse(message: Message): CommandParseResult {
+    const tokens = this.tokenize(message);
+    // 去掉指令名称
+    tokens.shift();
+
+    const args: Record<string, CommandArgumentValue | undefined> = {};
+    const flags: Record<string, CommandFlagValue | undefined> = {};
+    const positional: Token[] = [];
+
+    // 先取出选项
+    while (tokens.length) {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- 长度不为 0
+      const token = tokens.shift()!;
+      // 单独的 -- 表示选项结束
+      if (token.type === "text" && !token.quoted && token.value === "--") {
+        positional.push(...tokens.splice(0));
+        break;
+      }
+      // 用引号括起来的内容不是选项
+      const flagMatch =
+        token.type === "text" && !token.quoted
+          ? token.value.match(/^(--?)([^=]+)(?:=(.*))?$/)
+          : null;
+      if (!flagMatch) {
+        positional.push(token);
+        continue;
+      }
+      const [, dash, flagName, inlineValue] = flagMatch;
+      const flag = this.flags.find((i) => (dash === "--" ? i.name : i.alias) === flagName);
+      if (!flag) {
+        // 负数等不是选项的内容作为位置参数
+        if (!isNaN(Number(token.value))) {
+          positional.push(token);
+          continue;
+        }
+        return { error: `未知选项 ${token.value}` };
+      }
+      if ((flag.type ?? "boolean") === "boolean") {
+        flags[flag.name] = true;
+        continue;
+      }
+      const valueToken = inlineValue !== undefined ? inlineValue : tokens.shift();
+      const value = typeof valueToken === "object" ? valueToken.value : valueToken;
+      if (typeof value !== "string") return { error: `选项 --${flag.name} 缺少值` };
+      if (flag.type === "number") {
+        if (isNaN(Number(value))) return { error: `选项 --${flag.name} 应为数字` };
+        flags[flag.name] = Number(value);
+      } else {
+        flags[flag.name] = value;
+      }
+    }
+
+    // 再按顺序解析位置参数
+    for (const arg of this.args) {
+      const type = arg.type ?? "string";
+      if (arg.rest && type === "string") {
+        const rest = positional.splice(0);
+        const texts = rest.filter((i) => i.type !== "image");
+        // 剩余内容中的图片无法表示为文本，不能直接丢弃
+        if (texts.length !== rest.length)
+          return { error: `参数 ${arg.name} 应为${typeNames[type]}` };
+        if (texts.length) {
+          args[arg.name] = texts.map((i) => i.value).join(" ");
+          continue;
+        }
+      }
+      const token = positional.shift();
+      if (!token) {
+        if (arg.optional) continue;
+        return { error: `缺少参数 ${arg.name}` };
+      }
+      switch (type) {
+        case "string":
+          if (token.type !== "text") return { error: `参数 ${arg.name} 应为${typeNames[type]}` };
+          args[arg.name] = token.value;
+          break;
+        case "number":
+          if (token.type !== "text" || isNaN(Number(token.value)))
+            return { error: `参数 ${arg.name} 应为${typeNames[type]}` };
+          args[arg.name] = Number(token.value);
+          break;
+        case "user":
+        case "image":
+          if (token.type !== type) return { error: `参数 ${arg.name} 应为${typeNames[type]}` };
+          args[arg.name] = token.value;
+          break;
+      }
+    }
+
+    if (positional.length) return { error: "参数过多" };
+    return { args, flags };
+  }
+
+  /**
+   * 生成指令用法
+   * @param description 指令描述
+   * @returns 用法说明文本
+   */
+  getUsage(description?: string) {
+    const usage = [
+      `#${this.name}`,
+      ...this.args.map((i) => {
+        const name = `${i.name}${i.rest ? "..." : ""}`;
+        return i.optional ? `[${name}]` : `<${name}>`;
+      }),
+      ...this.flags.map(
+        (i) => `[--${i.name}${(i.type ?? "boolean") === "boolean" ? "" : " <值>"}]`,
+      ),
+    ].join(" ");
+
+    const lines = [];
+    if (description) lines.push(description);
+    lines.push(`用法：${usage}`);
+    if (this.aliases.length) lines.push(`别名：${this.aliases.map((i) => `#${i}`).join("、")}`);
+    for (const arg of this.args) {
+      lines.push(
+        `  ${arg.name}（${typeNames[arg.type ?? "string"]}）${arg.description ? `：${arg.description}` : ""}`,
+      );
+    }
+    for (const flag of this.flags) {
+      const name = `--${flag.name}${flag.alias ? `, -${flag.alias}` : ""}`;
+      lines.push(`  ${name}${flag.description ? `：${flag.description}` : ""}`);
+    }
+    return lines.join("\n");
+  }
+}
+
+export type {
+  CommandArgs,
+  CommandArgument,
+  CommandArgumentType,
+  CommandArgumentValue,
+  CommandDefinition,
+  CommandEvent,
+  CommandFlag,
+  CommandFlags,
+  CommandFlagValue,
+  CommandParseResult,
+};
+export default Command;
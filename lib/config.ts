@@ -6,7 +6,6 @@ import toml from "toml";
 import _ from "lodash";
 
 import { getLogger } from "yuzai/logger";
-import client from "yuzai/client";
 
 const logger = getLogger("Config");
 
@@ -27,6 +26,8 @@ interface SystemConfig {
   readonly msgTypeCount: boolean;
   /** 以/开头转为# */
   readonly slashToHash: boolean;
+  /** 交互存储方式 memory-内存 leveldb-LevelDB redis-Redis */
+  readonly interactionStore?: "memory" | "leveldb" | "redis";
   /** 米游社接口代理地址，国际服用 */
   // proxyAddress: string
   readonly log: {
@@ -41,9 +42,9 @@ interface SystemConfig {
   };
   /** 定时任务配置项 */
   readonly schedule: {
-    /** 自动更新时间 */
+    /** 自动更新间隔，单位分钟，0则不自动更新 */
     readonly updateTime: number;
-    /** 自动重启时间 */
+    /** 运行多久后自动重启，单位分钟，0则不自动重启 */
     readonly restartTime: number;
     /** 定时更新 cron 表达式 */
     readonly updateCron: string;
@@ -62,19 +63,19 @@ interface GroupConfig {
   readonly groupCD: number;
   /** 群聊中个人操作冷却时间，单位毫秒 */
   readonly singleCD: number;
-  /** 是否只仅关注主动提及Bot的消息 0-否 1-是 2-非主人 */
+  /** 是否只仅关注主动提及Bot的消息 false-否 true-是 "notMaster"-非主人 */
   readonly onlyReplyAt: boolean | "notMaster";
   /** 开启后则只回复提及Bot的消息及特定前缀的消息 */
   readonly botAlias: string[];
-  /** 是否限制添加消息 0-所有群员 1-群管理员 2-主人 */
+  /** 是否限制添加消息 "all"-所有群员 "admin"-群管理员 "master"-主人 */
   readonly addLimit: "all" | "admin" | "master";
   /** 是否允许私聊添加 */
   readonly addPrivate: boolean;
-  /** 是否回复触发消息 */
+  /** 回复时是否引用触发消息 */
   readonly addReply: boolean;
-  /** 是否提及触发用户 */
+  /** 回复时是否提及触发用户 */
   readonly addAt: boolean;
-  /** 是否撤回回复消息 */
+  /** 回复消息撤回时间，单位秒，0则不撤回 */
   readonly addRecall: number;
   /** 只启用功能，配置后只有该功能才响应 */
   readonly enable: string[];
@@ -95,11 +96,11 @@ interface BotGroupConfig {
 
 /** 机器人配置项 */
 interface BotConfig {
-  /** 是否自动同意加好友 1-同意 0-不处理 */
+  /** 是否自动同意加好友请求，关闭时可以由插件通过 `approve` 或 `reject` 处理 */
   readonly autoFriend: boolean;
   /** 是否自动退群人数，当被好友拉进群时，群人数小于配置值自动退出， 默认50，0则不处理 */
   readonly autoQuit: number;
-  /** 解析Bot账号:主人帐号 */
+  /** 解析Bot账号:主人帐号，`all` 为所有 Bot 共同的主人 */
   readonly masters: Record<string, string[]>;
   /** 禁用私聊功能 true：私聊只接受ck以及抽卡链接（Bot主人不受限制），false：私聊可以触发全部指令，默认false */
   readonly disablePrivate: boolean;
@@ -107,6 +108,8 @@ interface BotConfig {
   readonly disableMsg: string;
   /** 私聊通行字符串 */
   readonly disableAdopt: string[];
+  /** 权限不足时的提示内容，为空则不回复 */
+  readonly permissionDeniedMsg?: string;
   /** 白名单群 */
   readonly whiteGroup: string[];
   /** 白名单用户 */
@@ -184,47 +187,93 @@ const systemConfig = _.merge(getConfigFromFile<SystemConfig>("system"), {
 }) as SystemConfig;
 if (!systemConfig) {
   logger.error("系统配置文件 system.toml 读取失败，请检查配置文件或手动复制系统配置文件");
-  client.gracefulExit(1);
+  // 读取配置时还没有需要清理的内容，直接退出，这样配置模块不依赖客户端，监督进程不需要加载客户端
+  process.exit(1);
 }
 
 const botConfig = getConfigFromFile<BotConfig>("bot") as BotConfig;
 if (!botConfig) {
   logger.error("机器人配置文件 bot.toml 读取失败，请检查配置文件或手动复制机器人配置文件");
-  client.gracefulExit(1);
+  process.exit(1);
 }
 
-// 合并主人配置
+// 合并主人配置，保留 all 作为未单独配置的 Bot 的主人列表
 Object.keys(botConfig.masters).forEach((key) => {
   if (key === "all") return;
   botConfig.masters[key] = [
     ...new Set(botConfig.masters[key].concat(botConfig.masters["all"] || [])),
   ];
 });
-delete botConfig.masters["all"];
 
 const groupConfig = getConfigFromFile<BotGroupConfig>("groups") as BotGroupConfig;
 if (!groupConfig) {
   logger.error("群组配置文件 groups.toml 读取失败，请检查配置文件或手动复制群组配置文件");
-  client.gracefulExit(1);
+  process.exit(1);
 }
 
-// 实现 getGroupConfig 方法
+/**
+ * 迁移旧版群组配置中的数字取值，并去除无法识别的取值
+ *
+ * 旧版中 `onlyReplyAt` 为 0-否 1-是 2-非主人，`addLimit` 为 0-所有群员 1-群管理员 2-主人，
+ * 开关项为 0/1。旧版的 `addReply` 和 `addRecall` 不会生效，迁移时忽略，避免升级后回复都被引用或撤回
+ * @param section 一节群组配置
+ * @param name 配置节名称
+ */
+function migrateGroupConfig(section: Record<string, unknown>, name: string) {
+  const legacy = ["onlyReplyAt", "addLimit", "addPrivate", "addReply", "addAt"].some(
+    (key) => typeof section[key] === "number",
+  );
+  if (legacy) {
+    logger.warn(`群组配置 [${name}] 为旧版格式，已自动迁移，请参考默认配置更新 groups.toml`);
+    if (typeof section.onlyReplyAt === "number")
+      section.onlyReplyAt = section.onlyReplyAt === 2 ? "notMaster" : Boolean(section.onlyReplyAt);
+    if (typeof section.addLimit === "number")
+      section.addLimit =
+        (["all", "admin", "master"] as const)[section.addLimit] ?? section.addLimit;
+    for (const key of ["addPrivate", "addAt"]) {
+      if (typeof section[key] === "number") section[key] = Boolean(section[key]);
+    }
+    delete section.addReply;
+    delete section.addRecall;
+  }
+
+  const invalid = (key: string) => {
+    logger.warn(`群组配置 [${name}] 中 ${key} 的取值 ${section[key]} 无效，已忽略`);
+    delete section[key];
+  };
+  const { onlyReplyAt, addLimit, addRecall } = section;
+  if (onlyReplyAt !== undefined && typeof onlyReplyAt !== "boolean" && onlyReplyAt !== "notMaster")
+    invalid("onlyReplyAt");
+  if (addLimit !== undefined && !["all", "admin", "master"].includes(addLimit as string))
+    invalid("addLimit");
+  if (addRecall !== undefined && !(typeof addRecall === "number" && addRecall >= 0))
+    invalid("addRecall");
+}
+
+for (const [key, section] of Object.entries(groupConfig) as [string, Record<string, unknown>][]) {
+  // Bot 单独设置的配置节中包含 default 和各个群的配置
+  if (_.isPlainObject(section.default)) {
+    for (const [groupID, botSection] of Object.entries(section)) {
+      migrateGroupConfig(botSection as Record<string, unknown>, `${key}.${groupID}`);
+    }
+  } else {
+    migrateGroupConfig(section, key);
+  }
+}
+
+// 实现 getGroupConfig 方法，未配置的 Bot 或群使用默认配置
 botConfig.getGroupConfig = (botID, groupID) => {
-  return {
-    ...groupConfig.default,
-    ...(
-      groupConfig[botID] as {
-        readonly default: GroupConfig;
-        readonly [key: string]: GroupConfig;
-      }
-    ).default,
-    ...groupConfig[groupID],
-    ...(
-      groupConfig[botID] as {
+  const botGroupConfig = groupConfig[botID] as
+    | {
         readonly default: GroupConfig;
         readonly [key: string]: GroupConfig;
       }
-    )[groupID],
+    | undefined;
+  return {
+    ...groupConfig.default,
+    ...botGroupConfig?.default,
+    ...(groupConfig[groupID] as GroupConfig | undefined),
+    ...botGroupConfig?.[groupID],
   };
 };
 
@@ -0,0 +1,69 @@
+/**
+ * @description 指令冷却，对应群组配置中的 groupCD 和 singleCD
+ *
+ * 冷却状态以 Bot ID、群 ID、用户 ID 为键保存在此模块中，而不是保存在插件实例中，
+ * 因此插件热重载后冷却依然有效
+ */
+import type { MessageEvent } from "yuzai/event";
+
+/** 群冷却结束时间，键为 `${botID}:${groupID}` */
+const groupCooldowns = new Map<string, number>();
+
+/** 群成员冷却结束时间，键为 `${botID}:${groupID}:${userID}` */
+const userCooldowns = new Map<string, number>();
+
+/**
+ * 获取消息对应的冷却键
+ * @param event 消息事件
+ * @returns 群冷却键和群成员冷却键，不是群消息时返回 undefined
+ */
+function getCooldownKeys(event: MessageEvent) {
+  const target = event.message.target;
+  if (target?.type !== "group") return undefined;
+  const groupKey = `${event.bot.id}:${target.groupID}`;
+  return {
+    groupID: target.groupID,
+    groupKey,
+    userKey: `${groupKey}:${event.message.senderID}`,
+  };
+}
+
+/**
+ * 检查冷却是否未结束，已结束的冷却会被清除
+ * @param cooldowns 冷却表
+ * @param key 冷却键
+ */
+function checkCooldown(cooldowns: Map<string, number>, key: string) {
+  const expireTime = cooldowns.get(key);
+  if (expireTime === undefined) return false;
+  if (Date.now() < expireTime) return true;
+  cooldowns.delete(key);
+  return false;
+}
+
+/**
+ * 判断消息是否处于冷却中
+ *
+ * 只对群消息生效，主人不受冷却限制
+ * @param event 消息事件
+ */
+export function isCoolingDown(event: MessageEvent) {
+  const keys = getCooldownKeys(event);
+  if (!keys || event.isMaster) return false;
+  return checkCooldown(groupCooldowns, keys.groupKey) || checkCooldown(userCooldowns, keys.userKey);
+}
+
+/**
+ * 记录一次指令触发，开始冷却
+ *
+ * 只对群消息生效，主人触发的指令不会开始冷却
+ * @param event 消息事件
+ */
+export function setCooldown(event: MessageEvent) {
+  const keys = getCooldownKeys(event);
+  if (!keys || event.isMaster) return;
+  const { groupCD, singleCD } = event.bot.getGroupConfig(keys.groupID);
+  const now = Date.now();
+  if (groupCD > 0) groupCooldowns.set(keys.groupKey, now + groupCD);
+  if (singleCD > 0) userCooldowns.set(keys.userKey, now + singleCD);
+}
@@ -0,0 +1,259 @@
+/**
+ * @description 守护进程，负责在前台监督雨仔进程，以及在后台启动、停止、重启雨仔
+ *
+ * 监督进程会以 `worker` 模式启动雨仔进程，雨仔进程崩溃时按退避时间重新启动，
+ * 以 `restartExitCode` 退出时立即重新启动，正常退出时如果配置了定时开机则等待下次开机。
+ * 监督进程运行时会在 data 目录中写入 pid 文件，用于停止和重启。
+ */
+import { spawn, type ChildProcess } from "node:child_process";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { CronExpressionParser } from "cron-parser";
+
+import config from "yuzai/config";
+import { getLogger } from "yuzai/logger";
+import { restartExitCode } from "yuzai/exit-code";
+import * as utils from "yuzai/utils";
+
+const logger = getLogger("Daemon");
+
+/** pid 文件路径 */
+const pidFile = path.resolve(config.rootDir, "data", "yuzai.pid");
+
+/** 崩溃后重新启动的最短等待时间，单位毫秒 */
+const minBackoff = 1000;
+/** 崩溃后重新启动的最长等待时间，单位毫秒 */
+const maxBackoff = 60 * 1000;
+/** 雨仔进程运行超过这个时间后视为稳定，崩溃后重新计算等待时间，单位毫秒 */
+const stableTime = 60 * 1000;
+/** 等待监督进程退出的最长时间，单位毫秒 */
+const stopTimeout = 30 * 1000;
+/** 等待后台启动的监督进程写入 pid 文件的最长时间，单位毫秒 */
+const startTimeout = 10 * 1000;
+
+/** 当前的雨仔进程 */
+let worker: ChildProcess | undefined;
+/** 监督进程是否正在退出 */
+let stopping = false;
+
+/**
+ * 判断进程是否存在
+ * @param pid 进程 ID
+ */
+function isAlive(pid: number) {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 读取正在运行的监督进程 ID，pid 文件过期时会被删除
+ * @returns 进程 ID，没有正在运行的监督进程时返回 undefined
+ */
+async function readPid() {
+  let pid: number;
+  try {
+    pid = Number.parseInt(await fs.readFile(pidFile, "utf8"));
+  } catch {
+    return undefined;
+  }
+  if (pid && pid !== process.pid && isAlive(pid)) return pid;
+  await fs.rm(pidFile, { force: true });
+  return undefined;
+}
+
+/**
+ * 计算下次定时开机的时间
+ * @returns 时间戳，没有配置定时开机或 cron 表达式无效时返回 undefined
+ */
+function getNextStartTime() {
+  const { startCron } = config.system.schedule;
+  if (!startCron) return undefined;
+  try {
+    return CronExpressionParser.parse(startCron.split(/\s+/).slice(0, 6).join(" "))
+      .next()
+      .getTime();
+  } catch (error) {
+    logger.error([`定时开机的 cron 表达式 "${startCron}" 无效`, error]);
+    return undefined;
+  }
+}
+
+/**
+ * 启动雨仔进程，并等待进程退出
+ * @returns 退出码，被信号终止时为信号名称
+ */
+function runWorker() {
+  return new Promise<number | NodeJS.Signals>((resolve) => {
+    worker = spawn(process.execPath, [...process.execArgv, process.argv[1], "worker"], {
+      cwd: config.rootDir,
+      stdio: "inherit",
+    })
+      .on("error", (error) => {
+        logger.error(["启动雨仔进程失败", error]);
+        worker = undefined;
+        resolve(1);
+      })
+      .on("exit", (code, signal) => {
+        worker = undefined;
+        resolve(code ?? signal ?? 1);
+      });
+  });
+}
+
+/**
+ * 退出监督进程，会先等待雨仔进程优雅退出
+ */
+async function exitSupervisor() {
+  if (stopping) return;
+  stopping = true;
+  if (worker) {
+    logger.mark("正在停止雨仔进程");
+    worker.kill("SIGTERM");
+    return;
+  }
+  await fs.rm(pidFile, { force: true });
+  process.exit(0);
+}
+
+/**
+ * 在前台监督雨仔进程
+ *
+ * 雨仔进程崩溃时按退避时间重新启动，以 `restartExitCode` 退出时立即重新启动，
+ * 正常退出时如果配置了定时开机，则等待到下次开机时间后重新启动，否则监督进程也会退出。
+ */
+async function supervise() {
+  const pid = await readPid();
+  if (pid) {
+    logger.error(`雨仔已经在运行中（${pid}）`);
+    process.exitCode = 1;
+    return;
+  }
+  await utils.mkdir(path.dirname(pidFile));
+  await fs.writeFile(pidFile, String(process.pid));
+
+  for (const i of ["SIGINT", "SIGHUP", "SIGTERM"]) process.on(i, () => exitSupervisor());
+
+  let backoff = minBackoff;
+  while (!stopping) {
+    const startTime = Date.now();
+    const code = await runWorker();
+    if (stopping) break;
+
+    if (code === restartExitCode) {
+      logger.mark("雨仔请求重启，正在重新启动");
+      backoff = minBackoff;
+      continue;
+    }
+
+    if (code === 0) {
+      const nextStartTime = getNextStartTime();
+      if (nextStartTime === undefined) break;
+      logger.mark(`雨仔已关机，将于 ${new Date(nextStartTime).toLocaleString()} 定时开机`);
+      // setTimeout 的最长等待时间约为 24.8 天，需要分段等待
+      while (!stopping && Date.now() < nextStartTime) {
+        await utils.sleep(Math.min(nextStartTime - Date.now(), utils.maxTimeoutMs));
+      }
+      backoff = minBackoff;
+      continue;
+    }
+
+    if (Date.now() - startTime > stableTime) backoff = minBackoff;
+    logger.error(`雨仔进程异常退出（${code}），${backoff / 1000} 秒后重新启动`);
+    await utils.sleep(backoff);
+    backoff = Math.min(backoff * 2, maxBackoff);
+  }
+
+  await fs.rm(pidFile, { force: true });
+  logger.mark("监督进程已退出");
+}
+
+/**
+ * 在后台启动雨仔，并等待监督进程写入 pid 文件
+ * @returns 是否启动成功
+ */
+async function start() {
+  const pid = await readPid();
+  if (pid) {
+    logger.warn(`雨仔已经在运行中（${pid}）`);
+    return false;
+  }
+  let exited = false;
+  const supervisor = spawn(process.execPath, [...process.execArgv, process.argv[1], "run"], {
+    cwd: config.rootDir,
+    detached: true,
+    stdio: "ignore",
+  })
+    .on("error", (error) => {
+      logger.error(["启动监督进程失败", error]);
+      exited = true;
+    })
+    .on("exit", () => (exited = true));
+  supervisor.unref();
+
+  // 监督进程启动后会写入 pid 文件，启动失败时会直接退出
+  const deadline = Date.now() + startTimeout;
+  while ((await readPid()) !== supervisor.pid) {
+    if (exited) {
+      logger.error("雨仔后台启动失败，可以使用 run 命令在前台运行查看错误");
+      return false;
+    }
+    if (Date.now() > deadline) {
+      logger.error(`等待雨仔启动超时（${supervisor.pid}）`);
+      return false;
+    }
+    await utils.sleep(200);
+  }
+  logger.mark(`雨仔已在后台启动（${supervisor.pid}）`);
+  return true;
+}
+
+/**
+ * 停止后台或前台运行的雨仔，会等待雨仔优雅退出
+ * @returns 是否停止成功
+ */
+async function stop() {
+  const pid = await readPid();
+  if (!pid) {
+    logger.warn("雨仔没有在运行");
+    return false;
+  }
+  try {
+    process.kill(pid, "SIGTERM");
+  } catch (error) {
+    // 进程已经退出，或者 pid 已被其他用户的进程复用，pid 文件都已过期
+    await fs.rm(pidFile, { force: true });
+    if ((error as NodeJS.ErrnoException).code === "ESRCH") {
+      logger.warn(`雨仔（${pid}）已经退出，已删除过期的 pid 文件`);
+      return true;
+    }
+    logger.error([`停止雨仔（${pid}）失败，已删除 pid 文件`, error]);
+    return false;
+  }
+  logger.mark(`正在停止雨仔（${pid}）`);
+  const deadline = Date.now() + stopTimeout;
+  while (isAlive(pid)) {
+    if (Date.now() > deadline) {
+      logger.error(`等待雨仔停止超时（${pid}）`);
+      return false;
+    }
+    await utils.sleep(500);
+  }
+  logger.mark("雨仔已停止");
+  return true;
+}
+
+/**
+ * 重启后台运行的雨仔，没有在运行时直接启动
+ * @returns 是否启动成功
+ */
+async function restart() {
+  if ((await readPid()) && !(await stop())) return false;
+  return start();
+}
+
+export { supervise, start, stop, restart };
@@ -1,8 +1,11 @@
 import Bot from "yuzai/bot";
 import { getLogger } from "yuzai/logger";
+import type { CommandArgumentValue, CommandFlagValue } from "yuzai/command";
 import Message, { MessageBuilder } from "yuzai/message";
+import type Plugin from "yuzai/plugin";
+import type { InteractionScope, ScheduleTrigger } from "yuzai/plugin";
 import { PlatformInfo } from "yuzai/types";
-import type { TargetGroup } from "yuzai/types";
+import type { InfoChannel, Target, TargetGroup } from "yuzai/types";
 
 abstract class BaseEvent {
   protected _bot: Bot;
@@ -25,6 +28,113 @@ abstract class BaseEvent {
 
 class ConnectEvent extends BaseEvent {}
 
+/**
+ * 计划任务的上下文，包含所有 Bot、任务的目标群和任务配置
+ */
+class ScheduleContext {
+  protected _plugin: Plugin;
+  /** 计划任务所属的插件 */
+  get plugin() {
+    return this._plugin;
+  }
+
+  protected _trigger: ScheduleTrigger;
+  /** 计划任务触发器 */
+  get trigger() {
+    return this._trigger;
+  }
+
+  protected _bots: Bot[];
+  /** 执行任务时的所有 Bot */
+  get bots() {
+    return this._bots;
+  }
+
+  /** 计划任务的配置 */
+  get config() {
+    return this._trigger.config;
+  }
+
+  protected _signal: AbortSignal;
+  /** 执行超时时中止，耗时较长的任务可以据此提前结束 */
+  get signal() {
+    return this._signal;
+  }
+
+  constructor(
+    plugin: Plugin,
+    trigger: ScheduleTrigger,
+    bots: Bot[],
+    signal: AbortSignal = new AbortController().signal,
+  ) {
+    this._plugin = plugin;
+    this._trigger = trigger;
+    this._bots = bots;
+    this._signal = signal;
+  }
+
+  /**
+   * 获取 Bot 的目标群
+   *
+   * 目标群按照触发器的 `targets` 确定，`*` 表示 Bot 所在的所有群，
+   * 并去除群配置中没有启用插件或触发器的群
+   * @param bot 机器人
+   */
+  getTargetGroups(bot: Bot) {
+    const { targets } = this._trigger;
+    const groupIDs = Array.isArray(targets) ? targets : (targets[bot.id] ?? targets["all"] ?? []);
+    const resolved = groupIDs.includes("*") ? [...bot.groupList.keys()] : groupIDs.map(String);
+    return [...new Set(resolved)].filter((groupID) =>
+      this._plugin.isEnabled(bot, groupID, this._trigger),
+    );
+  }
+
+  /**
+   * 对每个 Bot 的每个目标群执行操作，单个群失败不会影响其他群
+   * @param handler 操作函数
+   */
+  async forEachGroup(handler: (bot: Bot, groupID: string) => Promise<void>) {
+    const results = await Promise.allSettled(
+      this._bots.flatMap((bot) =>
+        this.getTargetGroups(bot).map((groupID) => handler(bot, groupID)),
+      ),
+    );
+    for (const result of results) {
+      if (result.status === "rejected") {
+        getLogger(this._trigger.name).error(["向目标群执行计划任务失败", result.reason]);
+      }
+    }
+  }
+
+  /**
+   * 向每个 Bot 的每个目标群发送消息
+   * @param message 要发送的消息
+   */
+  async sendToGroups(message: Message | string) {
+    await this.forEachGroup(async (bot, groupID) => {
+      await bot.sendMessage(message, { groupID });
+    });
+  }
+}
+
+/** 等待回复的选项 */
+interface PromptOptions {
+  /** 超时时间，单位秒，不指定时不会超时 */
+  timeout?: number;
+  /** 超时时回复的消息，为空时不回复 */
+  timeoutMessage?: string;
+  /** 校验回复，返回 false 时继续等待 */
+  validate?: (event: MessageEvent) => boolean | Promise<boolean>;
+  /** 校验失败时回复的消息，为空时不回复 */
+  invalidMessage?: string;
+  /** 取消关键词，回复内容与其中之一相同时取消等待 */
+  cancelKeywords?: string[];
+  /** 取消时回复的消息，为空时不回复 */
+  cancelMessage?: string;
+  /** 交互范围，默认为 `member`，只接受同一用户在同一位置的回复 */
+  scope?: InteractionScope;
+}
+
 class MessageEvent extends BaseEvent {
   protected _message: Message;
   get message() {
@@ -35,6 +145,104 @@ class MessageEvent extends BaseEvent {
     return this.message.messageType;
   }
 
+  /** 经过预处理、供触发器匹配的消息，与原消息相互独立 */
+  protected _normalizedMessage?: Message;
+  /**
+   * 经过预处理、供触发器匹配的消息
+   *
+   * 去除了 @ 机器人的块和开头的机器人别名等内容，未经预处理时与原消息相同
+   */
+  get normalizedMessage() {
+    return this._normalizedMessage ?? this._message;
+  }
+  set normalizedMessage(message: Message) {
+    this._normalizedMessage = message;
+  }
+
+  /** 消息中是否 @ 了机器人 */
+  protected _atBot = false;
+  /** 消息中是否 @ 了机器人 */
+  get atBot() {
+    return this._atBot;
+  }
+  set atBot(atBot: boolean) {
+    this._atBot = atBot;
+  }
+
+  /** 消息是否以机器人别名开头 */
+  protected _hasAlias = false;
+  /** 消息是否以机器人别名开头 */
+  get hasAlias() {
+    return this._hasAlias;
+  }
+  set hasAlias(hasAlias: boolean) {
+    this._hasAlias = hasAlias;
+  }
+
+  /** 结构化指令解析出的参数 */
+  protected _args: Record<string, CommandArgumentValue | undefined> = {};
+  /**
+   * 结构化指令解析出的参数，以参数名称为键
+   *
+   * 只有触发器使用结构化指令时才会有内容
+   */
+  get args() {
+    return this._args;
+  }
+  set args(args: Record<string, CommandArgumentValue | undefined>) {
+    this._args = args;
+  }
+
+  /** 结构化指令解析出的选项 */
+  protected _flags: Record<string, CommandFlagValue | undefined> = {};
+  /**
+   * 结构化指令解析出的选项，以选项名称为键
+   *
+   * 只有触发器使用结构化指令时才会有内容
+   */
+  get flags() {
+    return this._flags;
+  }
+  set flags(flags: Record<string, CommandFlagValue | undefined>) {
+    this._flags = flags;
+  }
+
+  /** 回复时是否使用群配置作为默认值 */
+  protected _replyDefaults = true;
+  /**
+   * 回复时是否使用群配置作为默认值
+   *
+   * 为 true 时，`reply` 未指定的参数使用群配置中的 `addReply`、`addRecall` 和 `addAt`，
+   * 为 false 时未指定的参数都视为关闭
+   */
+  get replyDefaults() {
+    return this._replyDefaults;
+  }
+  set replyDefaults(replyDefaults: boolean) {
+    this._replyDefaults = replyDefaults;
+  }
+
+  /** 正在处理消息的插件 */
+  protected _plugin?: Plugin;
+  /** 正在处理消息的插件，由分发消息时设置 */
+  get plugin() {
+    return this._plugin;
+  }
+  set plugin(plugin: Plugin | undefined) {
+    this._plugin = plugin;
+  }
+
+  /** 消息所在的群 ID，不是群消息时为 undefined */
+  get groupID() {
+    const target = this.message.target;
+    return target?.type === "group" ? target.groupID : undefined;
+  }
+
+  /** 消息发送者是否为机器人的主人 */
+  get isMaster() {
+    return this.bot.isMaster(this.message.senderID);
+  }
+
   constructor(bot: Bot, message: Message) {
     super(bot);
     this._message = message;
@@ -42,14 +250,23 @@ class MessageEvent extends BaseEvent {
 
   /**
    * 回复当前消息
+   *
+   * 未指定的参数在 `replyDefaults` 为 true 时使用群配置中的 `addReply`、`addRecall` 和 `addAt`，
+   * 私聊使用默认群配置，否则视为关闭
    * @param message 要发送的消息
    * @param quote 是否引用回复
    * @param recallMsg 群聊是否撤回消息，0-120秒，0不撤回
    * @param at 是否at用户
    */
-  async reply(message: Message | string, quote = false, recallMsg = 0, at = false) {
+  async reply(message: Message | string, quote?: boolean, recallMsg?: number, at?: boolean) {
     const logger = getLogger(this.bot.nickname);
 
+    const groupConfig = this._replyDefaults ? this.bot.getGroupConfig(this.groupID) : undefined;
+    quote ??= Boolean(groupConfig?.addReply);
+    recallMsg ??= groupConfig?.addRecall ?? 0;
+    // 私聊中提及用户没有意义
+    at ??= Boolean(groupConfig?.addAt) && this.groupID !== undefined;
+
     if (!this.message.senderID) {
       logger.error("消息用户 ID 为空，无法回复");
       return undefined;
@@ -63,12 +280,13 @@ class MessageEvent extends BaseEvent {
       messageBuilder.fromMessage(message);
     }
 
+    // 引用块和 @ 块放在消息开头
+    if (at) {
+      messageBuilder.addAtBlock(this.message.senderID, undefined, 0);
+    }
     if (quote) {
       if (!this.message.messageID) logger.error("引用回复消息 ID 为空，引用回复功能无法使用");
-      else messageBuilder.addQuoteBlock(this.message.messageID);
-    }
-    if (at) {
-      messageBuilder.addAtBlock(this.message.senderID);
+      else messageBuilder.addQuoteBlock(this.message.messageID, 0);
     }
 
     message = messageBuilder.build();
@@ -95,6 +313,62 @@ class MessageEvent extends BaseEvent {
       }
     }
   }
+
+  /**
+   * 发送提示并等待用户的下一条回复
+   *
+   * 基于插件的交互实现，等待期间属于交互范围的消息不会再触发其他触发器。
+   *
+   * 触发器的 `wait` 默认为 true，在处理函数中等待回复时，这条消息的分发会一直持续到对话结束，
+   * 不终止后续触发器（`abort` 为 false）时，后续触发器也要等到对话结束后才会执行，其他消息的分发不受影响。
+   * 需要立即继续分发时，可以把触发器的 `wait` 设置为 false
+   * @param message 提示消息，不指定时不发送
+   * @param options 等待选项
+   * @returns 用户回复的消息事件，超时、取消或被新的交互替换时为 undefined
+   */
+  async prompt(message?: Message | string, options: PromptOptions = {}) {
+    const {
+      timeout,
+      timeoutMessage = "操作超时已取消",
+      validate,
+      invalidMessage,
+      cancelKeywords = ["取消", "#取消"],
+      cancelMessage = "已取消",
+      scope = "member",
+    } = options;
+
+    const plugin = this._plugin;
+    if (!plugin) {
+      getLogger(this.bot.nickname).error("消息事件不属于任何插件，无法等待回复");
+      return undefined;
+    }
+
+    if (message) await this.reply(message);
+
+    return new Promise<MessageEvent | undefined>((resolve) => {
+      plugin.startInteract(
+        this,
+        async (event) => {
+          if (cancelKeywords.includes(event.normalizedMessage.toString().trim())) {
+            plugin.finishInteract(event, scope);
+            if (cancelMessage) await event.reply(cancelMessage);
+            resolve(undefined);
+            return;
+          }
+          if (validate && !(await validate(event))) {
+            if (invalidMessage) await event.reply(invalidMessage);
+            return;
+          }
+          plugin.finishInteract(event, scope);
+          resolve(event);
+        },
+        timeout,
+        timeoutMessage,
+        () => resolve(undefined),
+        scope,
+      );
+    });
+  }
 }
 
 class NoticeEvent<NoticeEventID extends NoticeEventIDs | string> extends BaseEvent {
@@ -113,17 +387,114 @@ class NoticeEvent<NoticeEventID extends NoticeEventIDs | string> extends BaseEve
     return this._platfrom;
   }
 
+  /** 事件相关的群 ID，事件与群无关时为 undefined */
+  get groupID() {
+    const groupID = (this._data as { groupID?: unknown }).groupID;
+    return typeof groupID === "string" ? groupID : undefined;
+  }
+
+  /** 事件相关的用户 ID，请求事件为请求者 ID，事件与用户无关时为 undefined */
+  get userID() {
+    const data = this._data as { userID?: unknown; requesterID?: unknown };
+    const userID = data.userID ?? data.requesterID;
+    return typeof userID === "string" ? userID : undefined;
+  }
+
+  /**
+   * 事件的上下文，依次为群、子频道和用户，事件没有上下文时为 undefined
+   */
+  get target(): Target | undefined {
+    if (this.groupID) return { type: "group", groupID: this.groupID };
+    const { guildID, channelID } = this._data as { guildID?: unknown; channelID?: unknown };
+    if (typeof guildID === "string" && typeof channelID === "string") {
+      return { type: "guild", guildID, channelID };
+    }
+    if (this.userID) return { type: "person", userID: this.userID };
+    return undefined;
+  }
+
   constructor(
     bot: Bot,
     noticeType: NoticeEventID,
     data: NoticeEventData<NoticeEventID>,
-    platformInfo?: PlatformInfo,
+    platformInfo?: PlatformInfo | Record<string, Record<string, unknown>>,
   ) {
     super(bot);
     this._type = noticeType;
     this._data = data;
+    // 适配器通常直接传入平台信息对象，需要包装后才能按属性名查找
     if (platformInfo) {
-      this._platfrom = platformInfo;
+      this._platfrom =
+        platformInfo instanceof PlatformInfo ? platformInfo : new PlatformInfo(platformInfo);
+    }
+  }
+
+  /**
+   * 回复到事件的上下文，例如群通知会发送到群，好友通知会发送给好友
+   * @param message 要发送的消息
+   * @param at 在群中是否at事件相关的用户
+   * @returns 发送的消息 ID，事件没有上下文时返回 undefined
+   */
+  async reply(message: Message | string, at = false) {
+    const target = this.target;
+    if (!target) {
+      getLogger(this.bot.nickname).error(`通知 ${this._type} 没有可以回复的上下文`);
+      return undefined;
+    }
+
+    const messageBuilder = new MessageBuilder();
+    if (typeof message === "string") {
+      messageBuilder.addTextBlock(message);
+    } else {
+      messageBuilder.fromMessage(message);
+    }
+    if (at && target.type === "group" && this.userID) {
+      messageBuilder.addAtBlock(this.userID, undefined, 0);
+    }
+    return this.bot.sendMessage(messageBuilder.build(), target);
+  }
+
+  /**
+   * 同意加好友或加群请求
+   * @returns 是否处理成功
+   */
+  async approve() {
+    return this.handleRequest(true);
+  }
+
+  /**
+   * 拒绝加好友或加群请求
+   * @param reason 拒绝理由，加好友请求不支持
+   * @returns 是否处理成功
+   */
+  async reject(reason?: string) {
+    return this.handleRequest(false, reason);
+  }
+
+  /**
+   * 通过适配器处理请求
+   * @param approve 是否同意
+   * @param reason 拒绝理由
+   */
+  protected async handleRequest(approve: boolean, reason?: string) {
+    const logger = getLogger(this.bot.nickname);
+    const adapter = this.bot.adapter;
+    switch (this._type) {
+      case "notice.friend.request":
+        if (!adapter.handleFriendRequest) {
+          logger.error("适配器不支持处理加好友请求");
+          return false;
+        }
+        return adapter.handleFriendRequest(this._platfrom, approve);
+      case "notice.group.request":
+        if (!adapter.handleGroupRequest) {
+          logger.error("适配器不支持处理加群请求");
+          return false;
+        }
+        return adapter.handleGroupRequest(this._platfrom, approve, reason);
+      default:
+        logger.error(`通知 ${this._type} 不是请求，无法同意或拒绝`);
+        return false;
     }
   }
 }
@@ -145,19 +516,155 @@ interface GroupJoinData {
   timestamp: number;
   groupID: string;
   userID: string;
+  /** 同意加群或邀请入群的用户 ID */
+  operatorID?: string;
 }
 
 interface GroupLeaveData {
   timestamp: number;
   groupID: string;
   userID: string;
+  /** 踢出成员的用户 ID，主动退群时与 userID 相同 */
+  operatorID?: string;
+}
+
+interface FriendAddData {
+  timestamp: number;
+  userID: string;
+}
+
+interface FriendRecallData {
+  timestamp: number;
+  userID: string;
+  messageID: string;
+}
+
+interface FriendPokeData {
+  timestamp: number;
+  /** 戳一戳的用户 ID */
+  userID: string;
+  /** 被戳的用户 ID */
+  targetID: string;
+}
+
+interface GroupRecallData {
+  timestamp: number;
+  groupID: string;
+  /** 消息发送者 ID */
+  userID: string;
+  /** 撤回消息的用户 ID */
+  operatorID: string;
+  messageID: string;
+}
+
+interface GroupPokeData {
+  timestamp: number;
+  groupID: string;
+  /** 戳一戳的用户 ID */
+  userID: string;
+  /** 被戳的用户 ID */
+  targetID: string;
+}
+
+interface GroupAdminData {
+  timestamp: number;
+  groupID: string;
+  userID: string;
+  /** true 为设置管理员，false 为取消管理员 */
+  set: boolean;
+}
+
+interface GroupMuteData {
+  timestamp: number;
+  groupID: string;
+  /** 被禁言的用户 ID，全员禁言时为 undefined */
+  userID?: string;
+  /** 操作者 ID */
+  operatorID: string;
+  /** 禁言时长，单位秒，为 0 时表示解除禁言 */
+  duration: number;
+}
+
+interface GroupHonorData {
+  timestamp: number;
+  groupID: string;
+  userID: string;
+  /** 荣誉类型，例如 talkative、performer、emotion */
+  honor: string;
+}
+
+interface GroupTitleData {
+  timestamp: number;
+  groupID: string;
+  userID: string;
+  /** 获得的头衔 */
+  title: string;
+}
+
+interface GroupLuckyKingData {
+  timestamp: number;
+  groupID: string;
+  /** 发红包的用户 ID */
+  userID: string;
+  /** 运气王的用户 ID */
+  targetID: string;
+}
+
+interface GroupCardData {
+  timestamp: number;
+  groupID: string;
+  userID: string;
+  oldCard: string;
+  newCard: string;
+}
+
+interface GroupEssenceData {
+  timestamp: number;
+  groupID: string;
+  /** 消息发送者 ID */
+  userID: string;
+  /** 操作者 ID */
+  operatorID: string;
+  messageID: string;
+  /** true 为设为精华，false 为移出精华 */
+  set: boolean;
+}
+
+interface GuildChannelData {
+  timestamp: number;
+  guildID: string;
+  channelID: string;
+  /** 操作者 ID */
+  operatorID: string;
+  /** 子频道信息，删除时为删除前的信息 */
+  channel: InfoChannel;
+}
+
+interface GuildChannelUpdateData extends GuildChannelData {
+  /** 更新前的子频道信息 */
+  oldChannel: InfoChannel;
 }
 
 interface NoticeEventDataMap {
   "notice.friend.request": FriendRequestData;
+  "notice.friend.add": FriendAddData;
+  "notice.friend.recall": FriendRecallData;
+  "notice.friend.poke": FriendPokeData;
   "notice.group.request": GroupRequestData;
   "notice.group.member_join": GroupJoinData;
   "notice.group.member_leave": GroupLeaveData;
+  "notice.group.recall": GroupRecallData;
+  "notice.group.poke": GroupPokeData;
+  "notice.group.admin": GroupAdminData;
+  "notice.group.member_mute": GroupMuteData;
+  "notice.group.honor": GroupHonorData;
+  "notice.group.title": GroupTitleData;
+  "notice.group.lucky_king": GroupLuckyKingData;
+  "notice.group.member_card": GroupCardData;
+  "notice.group.essence": GroupEssenceData;
+  "notice.guild.channel_create": GuildChannelData;
+  "notice.guild.channel_update": GuildChannelUpdateData;
+  "notice.guild.channel_destroy": GuildChannelData;
 }
 
 type NoticeEventData<T extends NoticeEventIDs | string> = T extends keyof NoticeEventDataMap
@@ -170,17 +677,29 @@ type MessageEventIDs = "message" | "message.private" | "message.group" | "messag
 
 type NoticeEventIDs =
   | "notice.friend.request"
+  | "notice.friend.add"
+  | "notice.friend.recall"
+  | "notice.friend.poke"
   | "notice.group.request"
   | "notice.group.member_join"
-  | "notice.group.member_leave";
+  | "notice.group.member_leave"
+  | "notice.group.recall"
+  | "notice.group.poke"
+  | "notice.group.admin"
+  | "notice.group.member_mute"
+  | "notice.group.honor"
+  | "notice.group.title"
+  | "notice.group.lucky_king"
+  | "notice.group.member_card"
+  | "notice.group.essence"
+  | "notice.guild.channel_create"
+  | "notice.guild.channel_update"
+  | "notice.guild.channel_destroy";
 // | "notice.friend.accept"
 // | "notice.friend.reject"
-// | "notice.group.admin"
 // | "notice.group.notice"
 // | "notice.group.upload"
-// | "notice.group.member.card"
 // | "notice.group.member.permission"
-// | "notice.group.member.mute"
 // | "notice.guild.member.join"
 // | "notice.guild.member.leave"
 // | "notice.guild.member.mute"
@@ -191,5 +710,5 @@ type NoticeEventIDs =
 
 type EventIDs = "connect" | "schedule" | MessageEventIDs | NoticeEventIDs;
 
-export { BaseEvent, ConnectEvent, MessageEvent, NoticeEvent };
-export type { Event, EventIDs, MessageEventIDs, NoticeEventIDs, NoticeEventData };
+export { BaseEvent, ConnectEvent, MessageEvent, NoticeEvent, ScheduleContext };
+export type { Event, EventIDs, MessageEventIDs, NoticeEventIDs, NoticeEventData, PromptOptions };
@@ -0,0 +1,8 @@
+/**
+ * @description 进程退出码，雨仔进程和守护进程共同使用
+ *
+ * 单独放在一个模块中，守护进程引用时不需要加载系统操作相关的模块。
+ */
+
+/** 请求守护进程重启时使用的退出码 */
+export const restartExitCode = 75;
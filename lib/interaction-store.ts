@@ -0,0 +1,213 @@
+/**
+ * @description 交互存储，用于持久化进行中的分步交互，使交互在重启和插件重载后可以继续
+ *
+ * 默认使用内存存储，可以在 system.toml 中通过 `interactionStore` 切换为 leveldb 或 redis 扩展，
+ * 也可以通过 `setInteractionStore` 使用自定义的存储。
+ */
+import config from "yuzai/config";
+import { importExtension } from "yuzai/extensions";
+import { getLogger } from "yuzai/logger";
+import type { InteractionKey } from "yuzai/plugin";
+import type { Target } from "yuzai/types";
+
+const logger = getLogger("InteractionStore");
+
+/** 持久化的交互 */
+interface StoredInteraction {
+  /** 插件 ID */
+  readonly pluginID: string;
+  /** Bot ID */
+  readonly botID: string;
+  /** 交互键 */
+  readonly key: InteractionKey;
+  /** 步骤 ID，对应插件中用 `addStep` 注册的步骤 */
+  readonly step: string;
+  /** 插件提供的状态，需要可以序列化为 JSON */
+  readonly state: unknown;
+  /** 超时时间戳，单位毫秒，不存在时不会超时 */
+  readonly deadline?: number;
+  /** 超时时发送的消息 */
+  readonly timeoutMessage?: string;
+  /** 超时时发送消息的目标 */
+  readonly target: Target;
+}
+
+/** 交互存储 */
+interface InteractionStore {
+  /**
+   * 保存交互，已存在时覆盖
+   * @param interaction 要保存的交互
+   */
+  set(interaction: StoredInteraction): Promise<void>;
+  /**
+   * 删除交互
+   * @param pluginID 插件 ID
+   * @param key 交互键
+   */
+  delete(pluginID: string, key: InteractionKey): Promise<void>;
+  /**
+   * 获取插件的全部交互
+   *
+   * 读取失败时需要抛出错误，不能返回空数组，否则恢复交互时会当作没有交互，之后也不会重试
+   * @param pluginID 插件 ID
+   */
+  list(pluginID: string): Promise<StoredInteraction[]>;
+}
+
+/** 内存交互存储，重启后丢失，只能在插件重载后继续 */
+class MemoryInteractionStore implements InteractionStore {
+  protected interactions = new Map<string, StoredInteraction>();
+
+  async set(interaction: StoredInteraction) {
+    this.interactions.set(`${interaction.pluginID}:${interaction.key}`, interaction);
+  }
+
+  async delete(pluginID: string, key: InteractionKey) {
+    this.interactions.delete(`${pluginID}:${key}`);
+  }
+
+  async list(pluginID: string) {
+    return [...this.interactions.values()].filter((i) => i.pluginID === pluginID);
+  }
+}
+
+/** 使用 leveldb 扩展的交互存储 */
+class LevelDBInteractionStore implements InteractionStore {
+  protected db: typeof import("yuzai/extensions/leveldb").default;
+
+  constructor(db: typeof import("yuzai/extensions/leveldb").default) {
+    this.db = db;
+  }
+
+  protected getKey(pluginID: string, key: InteractionKey) {
+    return `interactions:${pluginID}:${key}`;
+  }
+
+  async set(interaction: StoredInteraction) {
+    try {
+      await this.db.put(this.getKey(interaction.pluginID, interaction.key), interaction);
+    } catch (error) {
+      logger.error([`保存插件 ${interaction.pluginID} 的交互失败`, error]);
+    }
+  }
+
+  async delete(pluginID: string, key: InteractionKey) {
+    try {
+      await this.db.del(this.getKey(pluginID, key));
+    } catch (error) {
+      logger.error([`删除插件 ${pluginID} 的交互失败`, error]);
+    }
+  }
+
+  async list(pluginID: string) {
+    const prefix = `interactions:${pluginID}:`;
+    return (await this.db
+      .values({ gte: prefix, lt: `${prefix}\xff` })
+      .all()) as StoredInteraction[];
+  }
+}
+
+/** 使用 redis 扩展的交互存储 */
+class RedisInteractionStore implements InteractionStore {
+  protected redis: typeof import("yuzai/extensions/redis").default;
+
+  constructor(redis: typeof import("yuzai/extensions/redis").default) {
+    this.redis = redis;
+  }
+
+  protected getKey(pluginID: string, key: InteractionKey) {
+    return `yuzai:interactions:${pluginID}:${key}`;
+  }
+
+  async set(interaction: StoredInteraction) {
+    try {
+      await this.redis.set(
+        this.getKey(interaction.pluginID, interaction.key),
+        JSON.stringify(interaction),
+      );
+    } catch (error) {
+      logger.error([`保存插件 ${interaction.pluginID} 的交互失败`, error]);
+    }
+  }
+
+  async delete(pluginID: string, key: InteractionKey) {
+    try {
+      await this.redis.del(this.getKey(pluginID, key));
+    } catch (error) {
+      logger.error([`删除插件 ${pluginID} 的交互失败`, error]);
+    }
+  }
+
+  async list(pluginID: string) {
+    // KEYS 会阻塞 redis，使用 SCAN 分批获取
+    const keys: string[] = [];
+    for await (const batch of this.redis.scanIterator({
+      MATCH: `yuzai:interactions:${pluginID}:*`,
+      COUNT: 100,
+    })) {
+      keys.push(...batch);
+    }
+    if (!keys.length) return [];
+    const values = await this.redis.mGet(keys);
+    return (values as unknown[]).flatMap((value) =>
+      typeof value === "string" ? [JSON.parse(value) as StoredInteraction] : [],
+    );
+  }
+}
+
+/** 当前使用的交互存储 */
+let store: Promise<InteractionStore> | undefined;
+
+/**
+ * 按照配置创建交互存储
+ */
+async function createInteractionStore(): Promise<InteractionStore> {
+  switch (config.system.interactionStore) {
+    case "leveldb": {
+      const { default: leveldb } = (await importExtension(
+        "leveldb",
+      )) as typeof import("yuzai/extensions/leveldb");
+      logger.debug("使用 leveldb 存储交互");
+      return new LevelDBInteractionStore(leveldb);
+    }
+    case "redis": {
+      const { default: redis } = (await importExtension(
+        "redis",
+      )) as typeof import("yuzai/extensions/redis");
+      logger.debug("使用 redis 存储交互");
+      return new RedisInteractionStore(redis);
+    }
+    default:
+      return new MemoryInteractionStore();
+  }
+}
+
+/**
+ * 获取交互存储，第一次调用时按照配置创建
+ *
+ * 创建失败时不会缓存失败的结果，下次调用会重新创建
+ */
+function getInteractionStore() {
+  store ??= createInteractionStore().catch((error) => {
+    store = undefined;
+    throw error;
+  });
+  return store;
+}
+
+/**
+ * 使用自定义的交互存储
+ * @param interactionStore 交互存储
+ */
+function setInteractionStore(interactionStore: InteractionStore) {
+  store = Promise.resolve(interactionStore);
+}
+
+export type { InteractionStore, StoredInteraction };
+export {
+  MemoryInteractionStore,
+  LevelDBInteractionStore,
+  RedisInteractionStore,
+  getInteractionStore,
+  setInteractionStore,
+};
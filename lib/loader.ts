@@ -1,17 +1,18 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { pathToFileURL } from "node:url";
-import { type UUID, randomUUID } from "node:crypto";
 
-import schedule from "node-schedule";
 import lodash from "lodash";
 
 import { getLogger } from "yuzai/logger";
 import config from "yuzai/config";
 import * as utils from "yuzai/utils";
 import Plugin from "yuzai/plugin";
+import { ScheduleContext } from "yuzai/event";
+import scheduler from "yuzai/scheduler";
 import Adapter from "yuzai/adapter";
 import { installDependencies } from "yuzai/dependency-manager";
+import client from "yuzai/client";
 
 const logger = getLogger("Loader");
 
@@ -33,25 +34,6 @@ const packageError: {
   file: string;
 }[] = [];
 
-/** 定时任务列表 */
-const schedules = new Map<
-  UUID,
-  {
-    /** 定时任务ID */
-    id: UUID;
-    /** 插件ID */
-    from: string;
-    /** 定时任务名称 */
-    name: string;
-    /** cron表达式 */
-    cron: string;
-    /** Schedule.Job 对象 */
-    job?: schedule.Job;
-    /** 定时任务处理函数 */
-    handler: () => Promise<void>;
-  }
->();
-
 /** 适配器目录名："adapters" */
 const adapterDirname = "adapters";
 
@@ -85,12 +67,19 @@ async function checkAndInstallDependencies(file: string, isAdapter = false) {
   }
 }
 
+/** 插件添加触发器或修改优先级时使分发计划失效 */
+const onPluginChange = () => client.invalidateDispatchPlans();
+
 /**
  * 加载全部插件
  * @param reload 是否全部重新加载
  */
 export async function loadPlugins(reload = false) {
-  if (reload) plugins.clear();
+  if (reload) {
+    for (const plugin of plugins.values()) plugin.off("change", onPluginChange);
+    plugins.clear();
+    client.onPluginsChange();
+  }
   if (plugins.size) return;
 
   logger.info("-----------");
@@ -108,7 +97,7 @@ export async function loadPlugins(reload = false) {
     }),
   );
 
-  logger.info(`加载定时任务[${schedules.size}个]`);
+  logger.info(`加载定时任务[${scheduler.tasks.size}个]`);
   logger.info(`加载插件[${plugins.size}个]`);
 
   return plugins;
@@ -251,7 +240,10 @@ async function loadPlugin(file: string, reload = false) {
       );
       return;
     } else {
-      // 如果是重新加载插件，先删掉旧插件
+      // 如果是重新加载插件，先停止旧插件的交互再删掉旧插件，交互会由新插件从交互存储中恢复
+      const oldPlugin = plugins.get(i.id);
+      if (oldPlugin && oldPlugin !== i) oldPlugin.clearInteractions();
+      oldPlugin?.off("change", onPluginChange);
       plugins.delete(i.id);
     }
 
@@ -277,14 +269,19 @@ async function loadPlugin(file: string, reload = false) {
               .removeAllListeners("unlink");
             utils.fileWatcher.delete(path.join(getPluginDir(), file));
             // 删除插件
-            plugins.delete(file);
+            plugins.get(i.id)?.clearInteractions();
+            plugins.get(i.id)?.off("change", onPluginChange);
+            plugins.delete(i.id);
+            client.onPluginsChange();
           }, 5000),
         );
     }
 
     plugins.set(i.id, i);
+    i.on("change", onPluginChange);
     createSchedules(i, reload);
   }
+  client.onPluginsChange();
   loadTime.set(file, Date.now() - startTime);
 }
 
@@ -312,52 +309,22 @@ export function packageTips() {
  */
 function createSchedules(plugin: Plugin, reload = false) {
   // 检查任务是否已经被创建
-  let isCreated = false;
-  for (const task of schedules.values()) {
-    if (task.from === plugin.id) {
-      isCreated = true;
-      break;
-    }
-  }
+  const isCreated = scheduler.hasFrom(plugin.id);
   if (isCreated && reload === false) return;
 
   // 删除已经存在的插件任务
-  if (isCreated) {
-    for (const task of schedules.values()) {
-      if (task.from === plugin.id) {
-        task.job?.cancel();
-        schedules.delete(task.id);
-      }
-    }
-  }
+  if (isCreated) scheduler.removeFrom(plugin.id);
 
   for (const trigger of plugin.schedules) {
-    const uuid = randomUUID();
-    // 格式化任务名称用于日志
-    const name = `${logger.blue(`[${trigger.name}(${trigger.cron})]`)}`;
-    logger.debug(`加载定时任务 ${name}`);
-
-    schedules.set(uuid, {
-      id: uuid,
-      from: plugin.id,
-      name: trigger.name,
-      cron: trigger.cron,
-      job: schedule.scheduleJob(
-        // 标准化 cron 表达式（取前6个空格分隔的部分）
-        trigger.cron.split(/\s+/).slice(0, 6).join(" "),
-        async () => {
-          try {
-            const startTime = Date.now();
-            getLogger(trigger.name).mark(`${name}${logger.yellow("[开始处理]")}`);
-            await trigger.handle(); // 执行任务处理函数
-            logger.mark(`${name}${logger.green(`[完成${utils.getTimeDiff(startTime)}]`)}`);
-          } catch (err) {
-            getLogger(trigger.name).error([name, err]);
-          }
-        },
-      ),
-      handler: trigger.handle,
-    });
+    logger.debug(`加载定时任务 ${logger.blue(`[${trigger.name}(${trigger.cron})]`)}`);
+    // 每次执行时使用当前的 Bot 列表
+    scheduler.add(
+      plugin.id,
+      trigger.name,
+      trigger.cron,
+      (signal) => trigger.handle(new ScheduleContext(plugin, trigger, client.bots, signal)),
+      { noOverlap: trigger.noOverlap, catchUp: trigger.catchUp, timeout: trigger.timeout },
+    );
   }
 }
 
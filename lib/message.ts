@@ -1,23 +1,54 @@
-import { fileURLToPath } from "node:url";
+import { fileURLToPath, pathToFileURL } from "node:url";
 import { type UUID, createHash } from "node:crypto";
 import fs from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
 
 import { PlatformInfo, type Target } from "yuzai/types";
+import config from "yuzai/config";
 import { getLogger } from "yuzai/logger";
 
 const logger = getLogger();
 
 abstract class BaseMessageBlock {
   // TODO 确定 TYPE 范围
-  abstract readonly type: "text" | "face" | "image" | "file" | "at" | "atall" | "quote";
+  abstract readonly type:
+    | "text"
+    | "face"
+    | "image"
+    | "file"
+    | "at"
+    | "atall"
+    | "quote"
+    | "record"
+    | "video"
+    | "rps"
+    | "dice"
+    | "shake"
+    | "poke"
+    | "share"
+    | "contact"
+    | "location"
+    | "music"
+    | "xml"
+    | "json"
+    | "markdown"
+    | "forward";
   abstract toString(): string;
 
   protected _platform?: PlatformInfo;
   get platform() {
     return this._platform;
   }
+  /**
+   * 设置平台相关信息，用于保存平台特有的额外数据
+   * @param platform 平台相关信息
+   * @returns 消息块本身
+   */
+  setPlatform(platform: PlatformInfo | Record<string, Record<string, unknown>>) {
+    this._platform = platform instanceof PlatformInfo ? platform : new PlatformInfo(platform);
+    return this;
+  }
 }
 
 /** 消息中的文本块 */
@@ -62,7 +93,151 @@ export class FaceBlock extends BaseMessageBlock {
   }
 }
 
+/** 校验和 */
+type Checksum = { type: string; value: string };
+
+/**
+ * 下载 URL 的内容，file:// URL 会直接读取本地文件
+ * @param url 要下载的 URL
+ * @returns 下载的数据
+ */
+async function fetchBuffer(url: string) {
+  if (url.startsWith("file://")) return await fs.readFile(fileUrlToLocalPath(url));
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`下载 ${url} 失败：${res.status} ${res.statusText}`);
+  return Buffer.from(await res.arrayBuffer());
+}
+
+/**
+ * 计算数据的 sha256 校验和
+ * @param buffer 数据
+ */
+function sha256(buffer: Buffer): Checksum {
+  return { type: "sha256", value: createHash("sha256").update(buffer).digest("hex") };
+}
+
+/**
+ * 校验数据的大小和校验和，不匹配时输出错误日志
+ * @param name 文件名称，用于日志
+ * @param buffer 数据
+ * @param size 预期大小
+ * @param checksum 预期校验和
+ * @returns 是否校验通过
+ */
+function verifyBuffer(name: string, buffer: Buffer, size?: number, checksum?: Checksum) {
+  let passed = true;
+  if (size && size !== buffer.byteLength) {
+    logger.error(`文件 ${name} 大小不匹配，预期 ${size}，实际 ${buffer.byteLength}`);
+    passed = false;
+  }
+  if (checksum) {
+    const value = createHash(checksum.type).update(buffer).digest("hex");
+    if (value !== checksum.value) {
+      logger.error(`文件 ${name} 校验和不匹配，预期 ${checksum.value}，实际 ${value}`);
+      passed = false;
+    }
+  }
+  return passed;
+}
+
+/**
+ * 获取下载时使用的文件名，只保留名称的最后一部分，避免平台或 JSON 提供的名称写入下载目录之外
+ * @param name 文件名
+ * @returns 文件名，名称为空或只有 `.`、`..` 时返回 undefined
+ */
+function toDownloadFileName(name: string) {
+  const fileName = path.posix.basename(name.replace(/\\/g, "/"));
+  return fileName && fileName !== "." && fileName !== ".." ? fileName : undefined;
+}
+
+/**
+ * 将 file:// URL 转换为本地路径
+ * @param url file:// URL
+ */
+function fileUrlToLocalPath(url: string) {
+  let filePath = fileURLToPath(url);
+  if (process.platform === "win32") filePath = filePath.replace(/\\/g, "/");
+  return filePath;
+}
+
+/** 图片类型和尺寸 */
+interface ImageInfo {
+  mime: string;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * 根据文件头识别图片类型和尺寸，支持 PNG、JPEG、GIF、WebP 和 BMP
+ * @param buffer 图片数据
+ * @returns 图片类型和尺寸，无法识别时返回 undefined
+ */
+function detectImage(buffer: Buffer): ImageInfo | undefined {
+  // 数据不完整时读取会越界，此时只返回类型
+  const readSize = (info: ImageInfo, read: () => [number, number]) => {
+    try {
+      [info.width, info.height] = read();
+    } catch {
+      // 忽略
+    }
+    return info;
+  };
+
+  if (buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])))
+    return readSize({ mime: "image/png" }, () => [
+      buffer.readUInt32BE(16),
+      buffer.readUInt32BE(20),
+    ]);
+  if (buffer.toString("latin1", 0, 4) === "GIF8")
+    return readSize({ mime: "image/gif" }, () => [buffer.readUInt16LE(6), buffer.readUInt16LE(8)]);
+  if (buffer.toString("latin1", 0, 2) === "BM")
+    return readSize({ mime: "image/bmp" }, () => [
+      buffer.readInt32LE(18),
+      Math.abs(buffer.readInt32LE(22)),
+    ]);
+  if (buffer.toString("latin1", 0, 4) === "RIFF" && buffer.toString("latin1", 8, 12) === "WEBP") {
+    return readSize({ mime: "image/webp" }, () => {
+      switch (buffer.toString("latin1", 12, 16)) {
+        case "VP8 ":
+          return [buffer.readUInt16LE(26) & 0x3fff, buffer.readUInt16LE(28) & 0x3fff];
+        case "VP8L": {
+          const bits = buffer.readUInt32LE(21);
+          return [(bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1];
+        }
+        case "VP8X":
+          return [buffer.readUIntLE(24, 3) + 1, buffer.readUIntLE(27, 3) + 1];
+        default:
+          throw new Error("未知的 WebP 格式");
+      }
+    });
+  }
+  if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+    return readSize({ mime: "image/jpeg" }, () => {
+      // 依次跳过 JPEG 段，直到找到包含尺寸的 SOF 段
+      let offset = 2;
+      while (offset < buffer.length) {
+        if (buffer[offset] !== 0xff) break;
+        const marker = buffer[offset + 1];
+        if (marker === 0xff) {
+          offset++;
+          continue;
+        }
+        if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker))
+          return [buffer.readUInt16BE(offset + 7), buffer.readUInt16BE(offset + 5)];
+        offset += 2 + buffer.readUInt16BE(offset + 2);
+      }
+      throw new Error("没有找到 SOF 段");
+    });
+  }
+  return undefined;
+}
+
 /** 消息中的图片块 */
+/*
+ * 和文件块一样，图片块也要考虑机器人端和适配器端
+ * 收到的图片块一般是平台的图片 ID 和 URL，发送的图片块可能是本地路径、Buffer、base64 或者 URL
+ * 适配器需要根据平台所在的位置选择发送方式，可以使用 localFilePath、getBuffer() 和 getUrl()
+ */
 export class ImageBlock extends BaseMessageBlock {
   readonly type = "image";
   private readonly _id: string;
@@ -73,21 +248,255 @@ export class ImageBlock extends BaseMessageBlock {
   get name() {
     return this._name;
   }
-  // @ts-expect-error TS6133 未完成
+
   private _size?: number;
-  // @ts-expect-error TS6133 未完成
-  private _url?: string;
+  get size() {
+    return this._size;
+  }
+
+  private _checksum?: Checksum;
+  get checksum() {
+    return this._checksum;
+  }
+
+  private readonly _url?: string;
+  private readonly _urlResolver?: (imageBlock: ImageBlock) => Promise<string>;
+  get url() {
+    return this._url;
+  }
+  async getUrl() {
+    if (this._url) return this._url;
+    if (this._urlResolver) return this._urlResolver(this);
+    return this._url;
+  }
+
+  private _localFilePath?: string;
+  get localFilePath() {
+    return this._localFilePath;
+  }
 
-  constructor(id: string, name?: string, size?: number, url?: string) {
+  /** 图片数据，从 Buffer 或 base64 创建，或者读取、下载后才存在 */
+  private _buffer?: Buffer;
+  get buffer() {
+    return this._buffer;
+  }
+
+  private _mime?: string;
+  get mime() {
+    return this._mime;
+  }
+  private _width?: number;
+  get width() {
+    return this._width;
+  }
+  private _height?: number;
+  get height() {
+    return this._height;
+  }
+
+  /**
+   * @param id 图片 ID，发送时可以是文件路径、URL 等适配器支持的形式
+   * @param name 图片名称
+   * @param size 图片大小
+   * @param url 图片 URL，file:// URL 会被视为本地文件
+   * @param checksum 图片校验和
+   * @param urlResolver 图片 URL 解析函数，没有 URL 时用于获取 URL
+   */
+  constructor(
+    id: string,
+    name?: string,
+    size?: number,
+    url?: string,
+    checksum?: Checksum,
+    urlResolver?: (imageBlock: ImageBlock) => Promise<string>,
+  ) {
     super();
     this._id = id;
     this._name = name;
     this._size = size;
     this._url = url;
+    this._checksum = checksum;
+    this._urlResolver = urlResolver;
+    if (url?.startsWith("file://")) this._localFilePath = fileUrlToLocalPath(url);
+  }
+
+  /**
+   * 从本地文件创建图片块
+   * @param filePath 文件路径
+   * @param name 图片名称，默认使用文件名
+   */
+  static fromFile(filePath: string, name?: string) {
+    const absolutePath = path.resolve(filePath);
+    return new ImageBlock(
+      absolutePath,
+      name ?? path.basename(absolutePath),
+      undefined,
+      pathToFileURL(absolutePath).href,
+    );
+  }
+
+  /**
+   * 从 Buffer 创建图片块，图片 ID 为 sha256 校验和
+   * @param buffer 图片数据
+   * @param name 图片名称
+   */
+  static fromBuffer(buffer: Buffer, name?: string) {
+    const checksum = sha256(buffer);
+    const imageBlock = new ImageBlock(checksum.value, name, buffer.byteLength, undefined, checksum);
+    imageBlock._buffer = buffer;
+    imageBlock.updateImageInfo(buffer);
+    return imageBlock;
+  }
+
+  /**
+   * 从 base64 创建图片块
+   * @param base64 base64 字符串，可以带有 `base64://` 或 `data:image/...;base64,` 前缀
+   * @param name 图片名称
+   */
+  static fromBase64(base64: string, name?: string) {
+    return ImageBlock.fromBuffer(
+      Buffer.from(base64.replace(/^base64:\/\/|^data:[^,]*;base64,/, ""), "base64"),
+      name,
+    );
+  }
+
+  /**
+   * 从 URL 创建图片块
+   * @param url 图片 URL，file:// URL 会被视为本地文件
+   * @param name 图片名称
+   */
+  static fromUrl(url: string, name?: string) {
+    return new ImageBlock(url, name, undefined, url);
+  }
+
+  /**
+   * 根据图片的形式创建图片块
+   *
+   * Buffer、base64、URL 和本地路径（绝对路径或以 `./`、`../` 开头）会使用对应的方法创建，其他字符串视为图片 ID。
+   * 本地路径会直接读取，不要传入用户输入，用户输入应使用文本标记或 JSON 解析
+   * @param image 图片
+   * @param name 图片名称
+   */
+  static from(image: string | Buffer, name?: string) {
+    if (Buffer.isBuffer(image)) return ImageBlock.fromBuffer(image, name);
+    if (/^base64:\/\/|^data:[^,]*;base64,/.test(image)) return ImageBlock.fromBase64(image, name);
+    if (/^(https?|file):\/\//.test(image)) return ImageBlock.fromUrl(image, name);
+    if (path.isAbsolute(image) || /^\.\.?[\\/]/.test(image))
+      return ImageBlock.fromFile(image, name);
+    return new ImageBlock(image, name);
+  }
+
+  /**
+   * 获取图片数据
+   *
+   * 依次使用已有的数据、本地文件和 URL，结果会被缓存
+   * @returns 图片数据，无法获取时返回 undefined
+   */
+  async getBuffer() {
+    if (this._buffer) return this._buffer;
+    try {
+      if (this._localFilePath) {
+        this._buffer = await fs.readFile(this._localFilePath);
+      } else {
+        const url = await this.getUrl();
+        if (!url) {
+          logger.error("图片 URL 不存在");
+          return undefined;
+        }
+        this._buffer = await fetchBuffer(url);
+      }
+    } catch (error) {
+      logger.error([`获取图片 ${this._name || this._id} 失败`, error]);
+      return undefined;
+    }
+    this._size ??= this._buffer.byteLength;
+    this.updateImageInfo(this._buffer);
+    return this._buffer;
+  }
+
+  /**
+   * 识别图片类型和尺寸，结果保存在 mime、width 和 height 中
+   * @param buffer 图片数据，默认通过 getBuffer() 获取
+   * @returns 图片类型和尺寸，无法识别时返回 undefined
+   */
+  async detect(buffer?: Buffer) {
+    buffer ??= await this.getBuffer();
+    if (!buffer) return undefined;
+    return this.updateImageInfo(buffer);
+  }
+
+  /**
+   * 根据图片数据更新图片类型和尺寸
+   * @param buffer 图片数据
+   */
+  private updateImageInfo(buffer: Buffer) {
+    const info = detectImage(buffer);
+    if (info) {
+      this._mime = info.mime;
+      this._width = info.width;
+      this._height = info.height;
+    }
+    return info;
+  }
+
+  /**
+   * 下载图片
+   *
+   * 如果图片已经存在于本地，会直接返回已经存在的路径
+   * @param dir 要下载到的路径
+   * @param altName 要下载的文件名，默认使用图片名称，没有名称时使用校验和，名称中的目录会被去掉
+   * @param force 强制重新下载
+   * @param noCheck 是否不校验图片大小和校验和
+   * @returns 下载后的文件路径，下载失败或校验不通过时为 undefined
+   */
+  async download(dir: string, altName?: string, force = false, noCheck = false) {
+    if (this._localFilePath && !force) return this._localFilePath;
+
+    let buffer = this._buffer;
+    if (!buffer || force) {
+      const url = await this.getUrl();
+      if (!url) {
+        logger.error("图片 URL 不存在");
+        return undefined;
+      }
+      try {
+        buffer = await fetchBuffer(url);
+      } catch (error) {
+        logger.error(["下载图片失败", error]);
+        return undefined;
+      }
+    }
+
+    const info = this.updateImageInfo(buffer);
+    const checksum = sha256(buffer);
+    const extension = info ? `.${info.mime.split("/")[1].replace("jpeg", "jpg")}` : "";
+    const name = toDownloadFileName(altName || this._name || "") ?? `${checksum.value}${extension}`;
+    if (!noCheck && !verifyBuffer(name, buffer, this._size, this._checksum)) return undefined;
+    this._size ??= buffer.byteLength;
+    this._checksum ??= checksum;
+
+    const absolutePath = path.resolve(dir, name);
+    await fs.writeFile(absolutePath, buffer);
+    this._buffer = buffer;
+    this._localFilePath = absolutePath;
+    return absolutePath;
+  }
+
+  /**
+   * 打开图片文件
+   *
+   * 如果图片不在本地，会先下载图片
+   * @returns 文件句柄
+   */
+  async open() {
+    if (this._localFilePath) return await fs.open(this._localFilePath);
+    const path = await this.download(os.tmpdir());
+    if (!path) return;
+    return await fs.open(path);
   }
 
   toString() {
-    return `<image: ${this._name || this._id || "image"}>`;
+    return `<image: ${this._name || (this._buffer ? "buffer" : this._id) || "image"}>`;
   }
 }
 
@@ -117,7 +526,7 @@ export class FileBlock extends BaseMessageBlock {
     return this._size;
   }
 
-  private _checksum?: { type: string; value: string };
+  private _checksum?: Checksum;
   get checksum() {
     return this._checksum;
   }
@@ -153,11 +562,7 @@ export class FileBlock extends BaseMessageBlock {
     this._checksum = checksum;
     this._url = url;
     this._urlResolver = urlResolver;
-    if (url?.startsWith("file://")) {
-      let filePath = fileURLToPath(url);
-      if (process.platform === "win32") filePath = filePath.replace(/\\/g, "/");
-      this._localFilePath = filePath;
-    }
+    if (url?.startsWith("file://")) this._localFilePath = fileUrlToLocalPath(url);
   }
 
   /**
@@ -165,41 +570,40 @@ export class FileBlock extends BaseMessageBlock {
    *
    * 如果文件已经存在于本地，会直接返回已经存在的路径
    * @param dir 要下载到的路径
-   * @param altName 要下载的文件名，默认使用文件原名称
+   * @param altName 要下载的文件名，默认使用文件原名称，名称中的目录会被去掉
    * @param force 强制重新下载
    * @param noCheck 是否不校验文件大小和校验和
-   * @returns 下载后的文件路径
+   * @returns 下载后的文件路径，下载失败或校验不通过时为 undefined
    */
   async download(dir: string, altName?: string, force = false, noCheck = false) {
     if (this.url && (!this.localFilePath || force)) {
-      const name = altName || this.name || this.id;
-      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion -- 由于 this.name 一定存在，所以 name 一定存在
-      const absolutePath = path.resolve(dir, name!);
+      const name = toDownloadFileName(altName || this.name || this.id || "");
+      if (!name) {
+        logger.error(`文件名 ${altName || this.name} 无效`);
+        return;
+      }
+      const absolutePath = path.resolve(dir, name);
       const url = await this.getUrl();
       if (!url) {
         logger.error("文件 URL 不存在");
         return;
       }
-      const res = await fetch(url);
-      const arrayBuffer = await res.arrayBuffer();
-      const buffer = Buffer.from(arrayBuffer);
+      let buffer: Buffer;
+      try {
+        buffer = await fetchBuffer(url);
+      } catch (error) {
+        logger.error(["下载文件失败", error]);
+        return;
+      }
+      if (
+        !noCheck &&
+        !verifyBuffer(path.basename(absolutePath), buffer, this._size, this._checksum)
+      )
+        return;
       await fs.writeFile(absolutePath, buffer);
       this._localFilePath = absolutePath;
-      if (!this._size) this._size = buffer.byteLength;
-      else if (!noCheck && this._size !== buffer.byteLength) {
-        logger.error(`文件 ${name} 大小不匹配，预期 ${this._size}，实际 ${buffer.byteLength}`);
-      }
-      if (!this._checksum)
-        this._checksum = {
-          type: "sha256",
-          value: createHash("sha256").update(buffer).digest("hex"),
-        };
-      else if (!noCheck) {
-        const checksum = createHash(this._checksum.type).update(buffer).digest("hex");
-        if (checksum !== this._checksum.value) {
-          logger.error(`文件 ${name} 校验和不匹配，预期 ${this._checksum.value}，实际 ${checksum}`);
-        }
-      }
+      this._size ??= buffer.byteLength;
+      this._checksum ??= sha256(buffer);
       return absolutePath;
     } else {
       return this.localFilePath;
@@ -231,66 +635,547 @@ export class AtBlock extends BaseMessageBlock {
   get targetUserID() {
     return this._targetUserID;
   }
-  private readonly _targetNickname?: string;
-  get targetNickname() {
-    return this._targetNickname;
+  private readonly _targetNickname?: string;
+  get targetNickname() {
+    return this._targetNickname;
+  }
+
+  /**
+   * @param targetUserID 目标用户 ID，如果为空则为全体成员
+   * @param targetNickname 目标用户名称
+   */
+  constructor(targetUserID: string, targetNickname?: string) {
+    super();
+    this._targetUserID = targetUserID;
+    this._targetNickname = targetNickname;
+  }
+
+  toString(): string {
+    return `<at: ${this._targetUserID}>`;
+  }
+}
+
+/** 消息中的 \@全体成员 块 */
+export class AtallBlock extends BaseMessageBlock {
+  readonly type = "atall";
+
+  toString(): string {
+    return `<atall>`;
+  }
+}
+
+/**
+ * @description 消息中的引用块
+ *
+ * 有些平台只能引用一条，这种情况可以有两种处理方式：
+ * - 以第一个出现的引用块为准，同时在消息正文中忽略所有的引用块
+ * - 以文本方式构造类似引用的格式，把引用内容以文本块的形式添加到消息中
+ */
+export class QuoteBlock extends BaseMessageBlock {
+  readonly type = "quote";
+  private readonly _messageID?: string;
+  get messageID() {
+    return this._messageID;
+  }
+  private readonly _message?: Message;
+  get message() {
+    return this._message;
+  }
+
+  constructor(messageID: string);
+  constructor(message: Message);
+  constructor(messageIDOrMessage: string | Message) {
+    super();
+    if (typeof messageIDOrMessage === "string") {
+      this._messageID = messageIDOrMessage;
+    } else {
+      this._message = messageIDOrMessage;
+    }
+  }
+
+  toString(): string {
+    return `<quote: ${this._messageID || this._message}>`;
+  }
+}
+
+/** 消息中的语音块 */
+export class RecordBlock extends BaseMessageBlock {
+  readonly type = "record";
+  private readonly _id: string;
+  get id() {
+    return this._id;
+  }
+  private readonly _url?: string;
+  get url() {
+    return this._url;
+  }
+
+  /**
+   * @param id 语音 ID，发送时可以是文件路径、URL 等适配器支持的形式
+   * @param url 语音 URL
+   */
+  constructor(id: string, url?: string) {
+    super();
+    this._id = id;
+    this._url = url;
+  }
+
+  toString() {
+    return `<record: ${this._id}>`;
+  }
+}
+
+/** 消息中的视频块 */
+export class VideoBlock extends BaseMessageBlock {
+  readonly type = "video";
+  private readonly _id: string;
+  get id() {
+    return this._id;
+  }
+  private readonly _url?: string;
+  get url() {
+    return this._url;
+  }
+
+  /**
+   * @param id 视频 ID，发送时可以是文件路径、URL 等适配器支持的形式
+   * @param url 视频 URL
+   */
+  constructor(id: string, url?: string) {
+    super();
+    this._id = id;
+    this._url = url;
+  }
+
+  toString() {
+    return `<video: ${this._id}>`;
+  }
+}
+
+/** 消息中的猜拳魔法表情块 */
+export class RpsBlock extends BaseMessageBlock {
+  readonly type = "rps";
+  private readonly _result?: number;
+  /** 猜拳结果，发送时为 undefined，由平台随机决定 */
+  get result() {
+    return this._result;
+  }
+
+  constructor(result?: number) {
+    super();
+    this._result = result;
+  }
+
+  toString() {
+    return this._result === undefined ? "<rps>" : `<rps: ${this._result}>`;
+  }
+}
+
+/** 消息中的掷骰子魔法表情块 */
+export class DiceBlock extends BaseMessageBlock {
+  readonly type = "dice";
+  private readonly _result?: number;
+  /** 骰子点数，发送时为 undefined，由平台随机决定 */
+  get result() {
+    return this._result;
+  }
+
+  constructor(result?: number) {
+    super();
+    this._result = result;
+  }
+
+  toString() {
+    return this._result === undefined ? "<dice>" : `<dice: ${this._result}>`;
+  }
+}
+
+/** 消息中的窗口抖动块 */
+export class ShakeBlock extends BaseMessageBlock {
+  readonly type = "shake";
+
+  toString() {
+    return "<shake>";
+  }
+}
+
+/** 消息中的戳一戳块 */
+export class PokeBlock extends BaseMessageBlock {
+  readonly type = "poke";
+  private readonly _pokeType: string;
+  get pokeType() {
+    return this._pokeType;
+  }
+  private readonly _pokeID: string;
+  get pokeID() {
+    return this._pokeID;
+  }
+  private readonly _name?: string;
+  get name() {
+    return this._name;
+  }
+
+  /**
+   * @param pokeType 戳一戳类型
+   * @param pokeID 戳一戳 ID
+   * @param name 戳一戳名称
+   */
+  constructor(pokeType: string, pokeID: string, name?: string) {
+    super();
+    this._pokeType = pokeType;
+    this._pokeID = pokeID;
+    this._name = name;
+  }
+
+  toString() {
+    return `<poke: ${this._name || `${this._pokeType}-${this._pokeID}`}>`;
+  }
+}
+
+/** 消息中的链接分享块 */
+export class ShareBlock extends BaseMessageBlock {
+  readonly type = "share";
+  private readonly _url: string;
+  get url() {
+    return this._url;
+  }
+  private readonly _title: string;
+  get title() {
+    return this._title;
+  }
+  private readonly _content?: string;
+  /** 内容描述 */
+  get content() {
+    return this._content;
+  }
+  private readonly _image?: string;
+  /** 图片 URL */
+  get image() {
+    return this._image;
+  }
+
+  constructor(url: string, title: string, content?: string, image?: string) {
+    super();
+    this._url = url;
+    this._title = title;
+    this._content = content;
+    this._image = image;
+  }
+
+  toString() {
+    return `<share: ${this._title}, url: ${this._url}>`;
+  }
+}
+
+/** 消息中的推荐好友或群块 */
+export class ContactBlock extends BaseMessageBlock {
+  readonly type = "contact";
+  private readonly _contactType: "user" | "group";
+  /** 推荐类型，`user` 为好友，`group` 为群 */
+  get contactType() {
+    return this._contactType;
+  }
+  private readonly _id: string;
+  /** 被推荐的用户 ID 或群 ID */
+  get id() {
+    return this._id;
+  }
+
+  constructor(contactType: "user" | "group", id: string) {
+    super();
+    this._contactType = contactType;
+    this._id = id;
+  }
+
+  toString() {
+    return `<contact: ${this._contactType} ${this._id}>`;
+  }
+}
+
+/** 消息中的位置块 */
+export class LocationBlock extends BaseMessageBlock {
+  readonly type = "location";
+  private readonly _latitude: number;
+  get latitude() {
+    return this._latitude;
+  }
+  private readonly _longitude: number;
+  get longitude() {
+    return this._longitude;
+  }
+  private readonly _title?: string;
+  get title() {
+    return this._title;
+  }
+  private readonly _content?: string;
+  /** 内容描述 */
+  get content() {
+    return this._content;
+  }
+
+  constructor(latitude: number, longitude: number, title?: string, content?: string) {
+    super();
+    this._latitude = latitude;
+    this._longitude = longitude;
+    this._title = title;
+    this._content = content;
+  }
+
+  toString() {
+    return `<location: ${this._title || `${this._latitude}, ${this._longitude}`}>`;
+  }
+}
+
+/**
+ * @description 消息中的音乐分享块
+ *
+ * `source` 为 `custom` 时是自定义音乐分享，需要提供 `url`、`audio` 和 `title`，
+ * 否则是音乐平台的分享，需要提供歌曲 ID
+ */
+export class MusicBlock extends BaseMessageBlock {
+  readonly type = "music";
+  private readonly _source: "qq" | "163" | "xm" | "custom";
+  /** 音乐来源，`qq`、`163`、`xm` 分别为 QQ 音乐、网易云音乐、虾米音乐，`custom` 为自定义 */
+  get source() {
+    return this._source;
+  }
+  private readonly _id?: string;
+  /** 歌曲 ID */
+  get id() {
+    return this._id;
+  }
+  private readonly _url?: string;
+  /** 点击后跳转的 URL */
+  get url() {
+    return this._url;
+  }
+  private readonly _audio?: string;
+  /** 音乐 URL */
+  get audio() {
+    return this._audio;
+  }
+  private readonly _title?: string;
+  get title() {
+    return this._title;
+  }
+  private readonly _content?: string;
+  /** 内容描述 */
+  get content() {
+    return this._content;
+  }
+  private readonly _image?: string;
+  /** 图片 URL */
+  get image() {
+    return this._image;
+  }
+
+  constructor(
+    source: "qq" | "163" | "xm" | "custom",
+    {
+      id,
+      url,
+      audio,
+      title,
+      content,
+      image,
+    }: {
+      id?: string;
+      url?: string;
+      audio?: string;
+      title?: string;
+      content?: string;
+      image?: string;
+    },
+  ) {
+    super();
+    this._source = source;
+    this._id = id;
+    this._url = url;
+    this._audio = audio;
+    this._title = title;
+    this._content = content;
+    this._image = image;
+  }
+
+  toString() {
+    return `<music: ${this._title || `${this._source} ${this._id}`}>`;
+  }
+}
+
+/** 消息中的 XML 块 */
+export class XmlBlock extends BaseMessageBlock {
+  readonly type = "xml";
+  private readonly _data: string;
+  /** XML 内容 */
+  get data() {
+    return this._data;
+  }
+
+  constructor(data: string) {
+    super();
+    this._data = data;
+  }
+
+  toString() {
+    return `<xml: ${this._data}>`;
+  }
+}
+
+/** 消息中的 JSON 块 */
+export class JsonBlock extends BaseMessageBlock {
+  readonly type = "json";
+  private readonly _data: string;
+  /** JSON 字符串 */
+  get data() {
+    return this._data;
+  }
+  /** 解析后的 JSON 内容，解析失败时为 undefined */
+  get json(): unknown {
+    try {
+      return JSON.parse(this._data);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * @param data JSON 字符串，或可以序列化为 JSON 的对象
+   */
+  constructor(data: string | object) {
+    super();
+    this._data = typeof data === "string" ? data : JSON.stringify(data);
+  }
+
+  toString() {
+    return `<json: ${this._data}>`;
+  }
+}
+
+/** 消息中的 Markdown 块，不支持 Markdown 的平台会作为文本发送 */
+export class MarkdownBlock extends BaseMessageBlock {
+  readonly type = "markdown";
+  private readonly _content: string;
+  /** Markdown 内容 */
+  get content() {
+    return this._content;
+  }
+
+  constructor(content: string) {
+    super();
+    this._content = content;
+  }
+
+  toString() {
+    return `<markdown: ${this._content}>`;
+  }
+}
+
+/** 合并转发中的一条消息 */
+export class ForwardNode {
+  private readonly _message: Message;
+  /** 消息内容 */
+  get message() {
+    return this._message;
+  }
+  private readonly _name?: string;
+  /** 显示的发送者名称 */
+  get name() {
+    return this._name;
+  }
+  private readonly _avatarID?: string;
+  /** 显示头像的用户 ID */
+  get avatarID() {
+    return this._avatarID;
+  }
+  private readonly _time?: number;
+  /** 显示的发送时间，毫秒级时间戳 */
+  get time() {
+    return this._time;
+  }
+  private readonly _messageID?: string;
+  /** 引用已有消息时的消息 ID，平台支持时会直接转发该消息 */
+  get messageID() {
+    return this._messageID;
   }
 
   /**
-   * @param targetUserID 目标用户 ID，如果为空则为全体成员
-   * @param targetNickname 目标用户名称
+   * @param message 消息内容
+   * @param name 显示的发送者名称
+   * @param avatarID 显示头像的用户 ID
+   * @param time 显示的发送时间，毫秒级时间戳
+   * @param messageID 引用已有消息时的消息 ID
    */
-  constructor(targetUserID: string, targetNickname?: string) {
-    super();
-    this._targetUserID = targetUserID;
-    this._targetNickname = targetNickname;
-  }
-
-  toString(): string {
-    return `<at: ${this._targetUserID}>`;
+  constructor(
+    message: Message,
+    {
+      name,
+      avatarID,
+      time,
+      messageID,
+    }: { name?: string; avatarID?: string; time?: number; messageID?: string } = {},
+  ) {
+    this._message = message;
+    this._name = name;
+    this._avatarID = avatarID;
+    this._time = time;
+    this._messageID = messageID;
   }
-}
 
-/** 消息中的 \@全体成员 块 */
-export class AtallBlock extends BaseMessageBlock {
-  readonly type = "atall";
-
-  toString(): string {
-    return `<atall>`;
+  toString() {
+    return `${this._name || this._avatarID || ""}: ${this._message}`;
   }
 }
 
 /**
- * @description 消息中的引用块
+ * @description 消息中的合并转发块
  *
- * 有些平台只能引用一条，这种情况可以有两种处理方式：
- * - 以第一个出现的引用块为准，同时在消息正文中忽略所有的引用块
- * - 以文本方式构造类似引用的格式，把引用内容以文本块的形式添加到消息中
+ * 收到的合并转发块通常只有转发 ID，需要通过 `getNodes` 从平台获取具体内容
  */
-export class QuoteBlock extends BaseMessageBlock {
-  readonly type = "quote";
-  private readonly _messageID?: string;
-  get messageID() {
-    return this._messageID;
+export class ForwardBlock extends BaseMessageBlock {
+  readonly type = "forward";
+  private readonly _id?: string;
+  /** 合并转发 ID */
+  get id() {
+    return this._id;
   }
-  private readonly _message?: Message;
-  get message() {
-    return this._message;
+  private _nodes?: ForwardNode[];
+  /** 合并转发的消息列表，未获取时为 undefined */
+  get nodes() {
+    return this._nodes;
   }
+  private readonly _nodesResolver?: (
+    forwardBlock: ForwardBlock,
+  ) => Promise<ForwardNode[] | undefined>;
 
-  constructor(messageID: string);
-  constructor(message: Message);
-  constructor(messageIDOrMessage: string | Message) {
+  constructor(nodes: ForwardNode[]);
+  constructor(
+    id: string,
+    nodesResolver?: (forwardBlock: ForwardBlock) => Promise<ForwardNode[] | undefined>,
+  );
+  constructor(
+    idOrNodes: string | ForwardNode[],
+    nodesResolver?: (forwardBlock: ForwardBlock) => Promise<ForwardNode[] | undefined>,
+  ) {
     super();
-    if (typeof messageIDOrMessage === "string") {
-      this._messageID = messageIDOrMessage;
+    if (typeof idOrNodes === "string") {
+      this._id = idOrNodes;
+      this._nodesResolver = nodesResolver;
     } else {
-      this._message = messageIDOrMessage;
+      this._nodes = idOrNodes;
     }
   }
 
-  toString(): string {
-    return `<quote: ${this._messageID || this._message}>`;
+  /**
+   * 获取合并转发的消息列表，第一次获取后会缓存
+   * @returns 消息列表，获取失败时返回 undefined
+   */
+  async getNodes() {
+    if (!this._nodes && this._nodesResolver) this._nodes = await this._nodesResolver(this);
+    return this._nodes;
+  }
+
+  toString() {
+    return `<forward: ${this._nodes ? `${this._nodes.length}条消息` : this._id}>`;
   }
 }
 
@@ -301,7 +1186,428 @@ export type MessageBlock =
   | FileBlock
   | AtBlock
   | AtallBlock
-  | QuoteBlock;
+  | QuoteBlock
+  | RecordBlock
+  | VideoBlock
+  | RpsBlock
+  | DiceBlock
+  | ShakeBlock
+  | PokeBlock
+  | ShareBlock
+  | ContactBlock
+  | LocationBlock
+  | MusicBlock
+  | XmlBlock
+  | JsonBlock
+  | MarkdownBlock
+  | ForwardBlock;
+
+/** 平台相关信息的 JSON 形式 */
+type PlatformJSON = Record<string, Record<string, unknown>>;
+
+/** 消息块的 JSON 形式，data 为构造消息块需要的数据 */
+export interface MessageBlockJSON {
+  type: MessageBlock["type"];
+  data: Record<string, unknown>;
+  platform?: PlatformJSON;
+}
+
+/** 消息的 JSON 形式 */
+export interface MessageJSON {
+  botUUID?: UUID;
+  senderID?: string;
+  target?: Target;
+  messageType?: "private" | "group" | "groupPrivate" | "guild" | "guildPrivate";
+  messageID?: string;
+  sendTimestampMs?: number;
+  messageBlocks: MessageBlockJSON[];
+  platform?: PlatformJSON;
+}
+
+/**
+ * 将消息块转换为 JSON 形式
+ *
+ * 函数无法序列化，文件块和图片块的 URL 解析函数、合并转发块的消息解析函数会丢失，
+ * 只有从 Buffer 或 base64 创建的图片块会保存图片数据
+ * @param block 消息块
+ */
+function messageBlockToJSON(block: MessageBlock): MessageBlockJSON {
+  let data: Record<string, unknown>;
+  switch (block.type) {
+    case "text":
+      data = { text: block.text };
+      break;
+    case "face":
+      data = { id: block.faceID, name: block.name };
+      break;
+    case "image":
+      data = {
+        id: block.id,
+        name: block.name,
+        size: block.size,
+        url: block.url,
+        checksum: block.checksum,
+        base64: !block.url && block.buffer ? block.buffer.toString("base64") : undefined,
+      };
+      break;
+    case "file":
+      data = {
+        id: block.id,
+        name: block.name,
+        size: block.size,
+        url: block.url,
+        checksum: block.checksum,
+      };
+      break;
+    case "at":
+      data = { id: block.targetUserID, name: block.targetNickname };
+      break;
+    case "atall":
+    case "shake":
+      data = {};
+      break;
+    case "quote":
+      data = { id: block.messageID, message: block.message?.toJSON() };
+      break;
+    case "record":
+    case "video":
+      data = { id: block.id, url: block.url };
+      break;
+    case "rps":
+    case "dice":
+      data = { result: block.result };
+      break;
+    case "poke":
+      data = { type: block.pokeType, id: block.pokeID, name: block.name };
+      break;
+    case "share":
+      data = { url: block.url, title: block.title, content: block.content, image: block.image };
+      break;
+    case "contact":
+      data = { type: block.contactType, id: block.id };
+      break;
+    case "location":
+      data = {
+        lat: block.latitude,
+        lon: block.longitude,
+        title: block.title,
+        content: block.content,
+      };
+      break;
+    case "music":
+      data = {
+        source: block.source,
+        id: block.id,
+        url: block.url,
+        audio: block.audio,
+        title: block.title,
+        content: block.content,
+        image: block.image,
+      };
+      break;
+    case "xml":
+    case "json":
+      data = { data: block.data };
+      break;
+    case "markdown":
+      data = { content: block.content };
+      break;
+    case "forward":
+      data = {
+        id: block.id,
+        nodes: block.nodes?.map((node) => ({
+          message: node.message.toJSON(),
+          name: node.name,
+          avatarID: node.avatarID,
+          time: node.time,
+          messageID: node.messageID,
+        })),
+      };
+      break;
+  }
+  // 去掉值为 undefined 的属性
+  data = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+  return {
+    type: block.type,
+    data,
+    platform: block.platform && PlatformInfo.toJSON(block.platform),
+  };
+}
+
+/** JSON 和文本标记中的本地文件只能位于这些目录中，相对于根目录 */
+const localFileDirs = ["data", "resources"];
+
+/**
+ * 判断 JSON 或文本标记中的值是否引用了不允许读取的本地文件
+ *
+ * 本地文件包括绝对路径、以 `./`、`../` 开头的路径和 file:// URL
+ * @param value 路径、URL 或 ID
+ */
+function isForbiddenLocalFile(value?: string) {
+  if (!value) return false;
+  let filePath: string;
+  if (value.startsWith("file://")) filePath = fileUrlToLocalPath(value);
+  else if (path.isAbsolute(value) || /^\.\.?[\\/]/.test(value)) filePath = value;
+  else return false;
+  const absolutePath = path.resolve(filePath);
+  return !localFileDirs.some((dir) => {
+    const relative = path.relative(path.resolve(config.rootDir, dir), absolutePath);
+    return relative && !relative.startsWith("..") && !path.isAbsolute(relative);
+  });
+}
+
+/**
+ * 从 JSON 形式创建消息块，数值属性也可以是字符串
+ * @param json 消息块的 JSON 形式
+ * JSON 可能来自用户输入，图片、文件、语音和视频只能引用 data 和 resources 目录中的本地文件
+ * @returns 消息块，类型未知、缺少必要的属性或引用了不允许读取的本地文件时返回 undefined
+ */
+function messageBlockFromJSON(json: MessageBlockJSON): MessageBlock | undefined {
+  const data = json.data ?? {};
+  const string = (key: string) => (data[key] === undefined ? undefined : String(data[key]));
+  const number = (key: string) =>
+    data[key] === undefined || data[key] === "" ? undefined : Number(data[key]);
+  // 大部分消息块都有这些属性
+  const id = string("id");
+  const name = string("name");
+  const url = string("url");
+  const title = string("title");
+  const content = string("content");
+
+  if (
+    ["image", "file", "record", "video"].includes(json.type) &&
+    (isForbiddenLocalFile(id) || isForbiddenLocalFile(url))
+  ) {
+    logger.warn(`${json.type} 消息块引用了 data 和 resources 目录之外的本地文件，已忽略`);
+    return undefined;
+  }
+
+  let block: MessageBlock | undefined;
+  switch (json.type) {
+    case "text":
+      block = new TextBlock(string("text") ?? "");
+      break;
+    case "face":
+      if (id) block = new FaceBlock(id, name);
+      break;
+    case "image": {
+      const base64 = string("base64");
+      if (base64) block = ImageBlock.fromBase64(base64, name);
+      else if (url)
+        block = new ImageBlock(
+          id ?? url,
+          name,
+          number("size"),
+          url,
+          data.checksum as Checksum | undefined,
+        );
+      else if (id) block = ImageBlock.from(id, name);
+      break;
+    }
+    case "file":
+      if (name)
+        block = new FileBlock(name, id, number("size"), data.checksum as Checksum | undefined, url);
+      break;
+    case "at":
+      if (id) block = new AtBlock(id, name);
+      break;
+    case "atall":
+      block = new AtallBlock();
+      break;
+    case "quote":
+      if (data.message) block = new QuoteBlock(Message.fromJSON(data.message as MessageJSON));
+      else if (id) block = new QuoteBlock(id);
+      break;
+    case "record":
+      if (id) block = new RecordBlock(id, url);
+      break;
+    case "video":
+      if (id) block = new VideoBlock(id, url);
+      break;
+    case "rps":
+      block = new RpsBlock(number("result"));
+      break;
+    case "dice":
+      block = new DiceBlock(number("result"));
+      break;
+    case "shake":
+      block = new ShakeBlock();
+      break;
+    case "poke": {
+      const pokeType = string("type");
+      if (pokeType && id) block = new PokeBlock(pokeType, id, name);
+      break;
+    }
+    case "share":
+      if (url && title) block = new ShareBlock(url, title, content, string("image"));
+      break;
+    case "contact":
+      if ((data.type === "user" || data.type === "group") && id)
+        block = new ContactBlock(data.type, id);
+      break;
+    case "location": {
+      const latitude = number("lat");
+      const longitude = number("lon");
+      if (latitude !== undefined && longitude !== undefined)
+        block = new LocationBlock(latitude, longitude, title, content);
+      break;
+    }
+    case "music":
+      if (["qq", "163", "xm", "custom"].includes(String(data.source)))
+        block = new MusicBlock(data.source as MusicBlock["source"], {
+          id,
+          url,
+          audio: string("audio"),
+          title,
+          content,
+          image: string("image"),
+        });
+      break;
+    case "xml":
+    case "json": {
+      const value = string("data");
+      if (value !== undefined)
+        block = json.type === "xml" ? new XmlBlock(value) : new JsonBlock(value);
+      break;
+    }
+    case "markdown":
+      if (content !== undefined) block = new MarkdownBlock(content);
+      break;
+    case "forward": {
+      const nodes = data.nodes as
+        | {
+            message: MessageJSON;
+            name?: string;
+            avatarID?: string;
+            time?: number;
+            messageID?: string;
+          }[]
+        | undefined;
+      if (nodes)
+        block = new ForwardBlock(
+          nodes.map(
+            ({ message, ...options }) => new ForwardNode(Message.fromJSON(message), options),
+          ),
+        );
+      else if (id) block = new ForwardBlock(id);
+      break;
+    }
+  }
+  if (block && json.platform) block.setPlatform(json.platform);
+  return block;
+}
+
+/*
+ * 消息的文本标记格式，用于在存储的回复、配置文件等纯文本中表示 at、表情、图片等消息块
+ *
+ * 格式为 `[yz:类型,键=值,键=值]`，类型和键与消息块的 JSON 形式相同，例如：
+ * - `[yz:at,id=123456]`、`[yz:atall]`
+ * - `[yz:face,id=14]`
+ * - `[yz:image,id=./data/1.png]`，id 可以是本地路径、URL、base64 或者图片 ID
+ * - `[yz:image,url=https://example.com/1.png]`
+ * - `[yz:quote,id=消息ID]`
+ *
+ * 标记可能来自用户输入，如果允许引用任意本地路径，用户就可以让机器人发送本地的任意文件，
+ * 因此本地路径和 file:// URL 只能位于 data 和 resources 目录中，其他的标记会作为文本保留。
+ *
+ * 标记之外的内容为文本，文本和值中的 `\`、`[`、`]`、`,` 可以用 `\` 转义，其他的 `\` 保持原样，
+ * 只有 `[yz:` 开头的内容会被视为标记，类型未知或者缺少必要属性的标记会作为文本保留。
+ * 只能表示字符串和数值属性，引用的消息、合并转发的消息列表、校验和以及平台信息需要使用 JSON 形式保存。
+ */
+
+/** 标记开头 */
+const markupPrefix = "[yz:";
+/** 可以转义的字符 */
+const markupEscapable = "\\[],";
+
+/**
+ * 转义标记中的文本和值
+ * @param text 要转义的内容
+ */
+function escapeMarkup(text: string) {
+  return text.replace(/[\\[\],]/g, (char) => `\\${char}`);
+}
+
+/**
+ * 将消息块转换为文本标记
+ * @param block 消息块
+ */
+function messageBlockToMarkup(block: MessageBlock) {
+  if (block.type === "text") return escapeMarkup(block.text);
+  const params = Object.entries(messageBlockToJSON(block).data)
+    .filter(([, value]) => typeof value === "string" || typeof value === "number")
+    .map(([key, value]) => `,${key}=${escapeMarkup(String(value))}`);
+  return `${markupPrefix}${block.type}${params.join("")}]`;
+}
+
+/**
+ * 读取从 start 开始的一个标记
+ * @param markup 文本标记
+ * @param start 标记开头的位置
+ * @returns 标记中以逗号分隔的各部分和标记结束后的位置，标记没有结束时返回 undefined
+ */
+function readMarkupCode(markup: string, start: number) {
+  const parts: string[] = [];
+  let part = "";
+  for (let i = start + markupPrefix.length; i < markup.length; i++) {
+    const char = markup[i];
+    if (char === "\\" && markupEscapable.includes(markup[i + 1])) {
+      part += markup[++i];
+    } else if (char === ",") {
+      parts.push(part);
+      part = "";
+    } else if (char === "]") {
+      parts.push(part);
+      return { parts, end: i + 1 };
+    } else {
+      part += char;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 将文本标记解析为消息块
+ * @param markup 文本标记
+ * @returns 消息块列表
+ */
+function parseMarkup(markup: string) {
+  const blocks: MessageBlock[] = [];
+  let text = "";
+  let i = 0;
+  while (i < markup.length) {
+    const char = markup[i];
+    if (char === "\\" && markupEscapable.includes(markup[i + 1])) {
+      text += markup[i + 1];
+      i += 2;
+      continue;
+    }
+    if (markup.startsWith(markupPrefix, i)) {
+      const code = readMarkupCode(markup, i);
+      if (code) {
+        const [type, ...params] = code.parts;
+        const data = Object.fromEntries(
+          params.map((param) => {
+            const index = param.indexOf("=");
+            return index === -1 ? [param, ""] : [param.slice(0, index), param.slice(index + 1)];
+          }),
+        );
+        const block = messageBlockFromJSON({ type: type as MessageBlock["type"], data });
+        if (block) {
+          if (text) blocks.push(new TextBlock(text));
+          text = "";
+          blocks.push(block);
+          i = code.end;
+          continue;
+        }
+      }
+    }
+    text += char;
+    i++;
+  }
+  if (text) blocks.push(new TextBlock(text));
+  return blocks;
+}
 
 /** 构造消息需要的参数 */
 interface MessageConstructor {
@@ -387,6 +1693,51 @@ export default class Message {
     return this._messageBlocks.map((i) => i.toString()).join("");
   }
 
+  /**
+   * 将消息内容转换为文本标记，可以通过 `MessageBuilder.addMarkup()` 解析
+   * @returns 文本标记形式的消息内容
+   */
+  toMarkup() {
+    return this._messageBlocks.map((i) => messageBlockToMarkup(i)).join("");
+  }
+
+  /**
+   * 将消息转换为 JSON 形式，可以通过 `Message.fromJSON()` 还原
+   * @returns JSON 形式的消息
+   */
+  toJSON(): MessageJSON {
+    return {
+      botUUID: this._botUUID,
+      senderID: this._senderID,
+      target: this._target,
+      messageType: this._messageType,
+      messageID: this._messageID,
+      sendTimestampMs: this._sendTimestampMs,
+      messageBlocks: this._messageBlocks.map((i) => messageBlockToJSON(i)),
+      platform: this._platform && PlatformInfo.toJSON(this._platform),
+    };
+  }
+
+  /**
+   * 从 JSON 形式还原消息，无法还原的消息块会被忽略
+   * @param json JSON 形式的消息，或者其字符串
+   * @returns 消息
+   */
+  static fromJSON(json: MessageJSON | string) {
+    const obj = (typeof json === "string" ? JSON.parse(json) : json) as MessageJSON;
+    const messageBlocks: MessageBlock[] = [];
+    for (const i of obj.messageBlocks ?? []) {
+      const block = messageBlockFromJSON(i);
+      if (block) messageBlocks.push(block);
+      else logger.warn(`无法还原消息块 ${JSON.stringify(i)}`);
+    }
+    return new Message({
+      ...obj,
+      messageBlocks,
+      platform: obj.platform ? new PlatformInfo(obj.platform) : undefined,
+    });
+  }
+
   /**
    * 构造函数
    * @param botUUID Client 维护的 Bot UUID，与机器人本身无关
@@ -396,6 +1747,7 @@ export default class Message {
    * @param messageID 此条消息 ID
    * @param messageBlocks 消息块列表
    * @param sendTimestampMs 消息发送时间，毫秒级时间戳
+   * @param platform 平台相关信息
    */
   constructor({
     botUUID,
@@ -405,6 +1757,7 @@ export default class Message {
     messageID,
     messageBlocks,
     sendTimestampMs,
+    platform,
   }: MessageConstructor) {
     this._botUUID = botUUID;
     this._senderID = senderID;
@@ -412,6 +1765,7 @@ export default class Message {
     this._messageID = messageID;
     this._messageType = messageType;
     this._sendTimestampMs = sendTimestampMs;
+    this._platform = platform;
     if (messageBlocks) {
       if (Array.isArray(messageBlocks)) {
         this._messageBlocks = messageBlocks;
@@ -560,6 +1914,14 @@ export class MessageBuilder {
     return this._messageBlocks.map((i) => i.toString()).join("");
   }
 
+  /**
+   * 将消息内容转换为文本标记，可以通过 `addMarkup()` 解析
+   * @returns 文本标记形式的消息内容
+   */
+  toMarkup() {
+    return this._messageBlocks.map((i) => messageBlockToMarkup(i)).join("");
+  }
+
   /**
    * 消息构造器
    */
@@ -595,6 +1957,7 @@ export class MessageBuilder {
     this._messageID = obj?.messageID;
     this._messageType = obj?.messageType;
     this._sendTimestampMs = obj?.sendTimestampMs;
+    if (obj?.platform) this._platform = obj.platform;
     if (obj?.messageBlocks) {
       if (Array.isArray(obj.messageBlocks)) {
         this._messageBlocks = obj.messageBlocks;
@@ -617,7 +1980,9 @@ export class MessageBuilder {
     this._messageID = originMessage.messageID;
     this._messageType = originMessage.messageType;
     this._sendTimestampMs = originMessage.sendTimestampMs;
-    this._messageBlocks = originMessage.messageBlocks;
+    if (originMessage.platform) this._platform = originMessage.platform;
+    // 复制消息块列表，避免修改原消息
+    this._messageBlocks = [...originMessage.messageBlocks];
     return this;
   }
 
@@ -631,6 +1996,18 @@ export class MessageBuilder {
     this._messageBlocks.splice(index, 0, messageBlock);
     return this;
   }
+  /**
+   * 解析文本标记，将得到的消息块依次添加到消息末尾
+   *
+   * 文本标记的格式为 `[yz:类型,键=值]`，例如 `[yz:at,id=123456]`、`[yz:image,id=./data/1.png]`，
+   * 可以用 `\` 转义 `\`、`[`、`]` 和 `,`，完整的格式说明见 message.ts 中文本标记格式的注释
+   * @param markup 文本标记
+   * @returns 添加内容后的消息
+   */
+  addMarkup(markup: string): MessageBuilder {
+    this._messageBlocks.push(...parseMarkup(markup));
+    return this;
+  }
   /**
    * 删除消息块
    * @param index 要删除的消息块的索引
@@ -683,13 +2060,13 @@ export class MessageBuilder {
   }
   /**
    * 向消息中添加图片块
-   * @param image 图片 URL
+   * @param image 图片，可以是本地路径、Buffer、base64、URL 或者图片 ID，也可以是已经创建的图片块
    * @param name 图片名称
    * @param index 添加位置索引，默认为 -1
    * @returns 添加内容后的消息
    */
-  addImageBlock(image: string, name?: string, index = -1): MessageBuilder {
-    this.add(new ImageBlock(image, name), index);
+  addImageBlock(image: string | Buffer | ImageBlock, name?: string, index = -1): MessageBuilder {
+    this.add(image instanceof ImageBlock ? image : ImageBlock.from(image, name), index);
     return this;
   }
   /**
@@ -743,6 +2120,182 @@ export class MessageBuilder {
   ) {
     this.add(new FileBlock(name, id, size, checksum, url, urlResolver), index);
   }
+  /**
+   * 向消息中添加语音块
+   * @param id 语音 ID，可以是文件路径、URL 等适配器支持的形式
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addRecordBlock(id: string, index = -1): MessageBuilder {
+    this.add(new RecordBlock(id), index);
+    return this;
+  }
+  /**
+   * 向消息中添加视频块
+   * @param id 视频 ID，可以是文件路径、URL 等适配器支持的形式
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addVideoBlock(id: string, index = -1): MessageBuilder {
+    this.add(new VideoBlock(id), index);
+    return this;
+  }
+  /**
+   * 向消息中添加猜拳魔法表情块
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addRpsBlock(index = -1): MessageBuilder {
+    this.add(new RpsBlock(), index);
+    return this;
+  }
+  /**
+   * 向消息中添加掷骰子魔法表情块
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addDiceBlock(index = -1): MessageBuilder {
+    this.add(new DiceBlock(), index);
+    return this;
+  }
+  /**
+   * 向消息中添加窗口抖动块
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addShakeBlock(index = -1): MessageBuilder {
+    this.add(new ShakeBlock(), index);
+    return this;
+  }
+  /**
+   * 向消息中添加戳一戳块
+   * @param pokeType 戳一戳类型
+   * @param pokeID 戳一戳 ID
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addPokeBlock(pokeType: string, pokeID: string, index = -1): MessageBuilder {
+    this.add(new PokeBlock(pokeType, pokeID), index);
+    return this;
+  }
+  /**
+   * 向消息中添加链接分享块
+   * @param url 链接 URL
+   * @param title 标题
+   * @param content 内容描述
+   * @param image 图片 URL
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addShareBlock(
+    url: string,
+    title: string,
+    { content, image }: { content?: string; image?: string } = {},
+    index = -1,
+  ): MessageBuilder {
+    this.add(new ShareBlock(url, title, content, image), index);
+    return this;
+  }
+  /**
+   * 向消息中添加推荐好友或群块
+   * @param contactType 推荐类型，`user` 为好友，`group` 为群
+   * @param id 被推荐的用户 ID 或群 ID
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addContactBlock(contactType: "user" | "group", id: string, index = -1): MessageBuilder {
+    this.add(new ContactBlock(contactType, id), index);
+    return this;
+  }
+  /**
+   * 向消息中添加位置块
+   * @param latitude 纬度
+   * @param longitude 经度
+   * @param title 标题
+   * @param content 内容描述
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addLocationBlock(
+    latitude: number,
+    longitude: number,
+    { title, content }: { title?: string; content?: string } = {},
+    index = -1,
+  ): MessageBuilder {
+    this.add(new LocationBlock(latitude, longitude, title, content), index);
+    return this;
+  }
+  /**
+   * 向消息中添加音乐平台的音乐分享块
+   * @param source 音乐平台，`qq`、`163`、`xm` 分别为 QQ 音乐、网易云音乐、虾米音乐
+   * @param id 歌曲 ID
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addMusicBlock(source: "qq" | "163" | "xm", id: string, index = -1): MessageBuilder {
+    this.add(new MusicBlock(source, { id }), index);
+    return this;
+  }
+  /**
+   * 向消息中添加自定义音乐分享块
+   * @param url 点击后跳转的 URL
+   * @param audio 音乐 URL
+   * @param title 标题
+   * @param content 内容描述
+   * @param image 图片 URL
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addCustomMusicBlock(
+    url: string,
+    audio: string,
+    title: string,
+    { content, image }: { content?: string; image?: string } = {},
+    index = -1,
+  ): MessageBuilder {
+    this.add(new MusicBlock("custom", { url, audio, title, content, image }), index);
+    return this;
+  }
+  /**
+   * 向消息中添加 XML 块
+   * @param data XML 内容
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addXmlBlock(data: string, index = -1): MessageBuilder {
+    this.add(new XmlBlock(data), index);
+    return this;
+  }
+  /**
+   * 向消息中添加 JSON 块
+   * @param data JSON 字符串，或可以序列化为 JSON 的对象
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addJsonBlock(data: string | object, index = -1): MessageBuilder {
+    this.add(new JsonBlock(data), index);
+    return this;
+  }
+  /**
+   * 向消息中添加 Markdown 块
+   * @param content Markdown 内容
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addMarkdownBlock(content: string, index = -1): MessageBuilder {
+    this.add(new MarkdownBlock(content), index);
+    return this;
+  }
+  /**
+   * 向消息中添加合并转发块
+   * @param nodes 合并转发的消息列表
+   * @param index 添加位置索引，默认为 -1
+   * @returns 添加内容后的消息
+   */
+  addForwardBlock(nodes: ForwardNode[], index = -1): MessageBuilder {
+    this.add(new ForwardBlock(nodes), index);
+    return this;
+  }
 
   /**
    * 完成构建
@@ -756,6 +2309,7 @@ export class MessageBuilder {
       messageID: this._messageID,
       messageBlocks: this._messageBlocks,
       sendTimestampMs: this._sendTimestampMs,
+      platform: this._platform,
     });
   }
 }
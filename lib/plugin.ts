@@ -2,14 +2,95 @@ import EventEmitter from "node:events";
 
 import { CronExpressionParser } from "cron-parser";
 
-import { ConnectEvent, MessageEvent, NoticeEvent } from "yuzai/event";
+import type Bot from "yuzai/bot";
+import config from "yuzai/config";
+import { ConnectEvent, MessageEvent, NoticeEvent, ScheduleContext } from "yuzai/event";
 import type { EventIDs, MessageEventIDs, NoticeEventIDs } from "yuzai/event";
 import { getLogger } from "yuzai/logger";
+import { isCoolingDown, setCooldown } from "yuzai/cooldown";
+import Command, { type CommandDefinition, type CommandEvent } from "yuzai/command";
+import { getInteractionStore, type StoredInteraction } from "yuzai/interaction-store";
+import * as utils from "yuzai/utils";
+import type { InfoUserGroup } from "yuzai/types";
 
+/**
+ * 交互范围：
+ * - `member` 同一用户在同一位置（私聊、群或子频道）的消息，默认范围
+ * - `user` 同一用户在任意位置的消息
+ * - `channel` 同一子频道中所有人的消息，在群中等同于 `group`
+ * - `group` 同一群或频道中所有人的消息
+ * - `shared` Bot 收到的所有消息
+ *
+ * 私聊中除 `user` 和 `shared` 外的范围都等同于 `member`
+ */
+type InteractionScope = "member" | "user" | "channel" | "group" | "shared";
+
+/** 交互范围的优先级，一条消息同时属于多个交互时，范围越小的交互越优先 */
+const interactionScopes: readonly InteractionScope[] = [
+  "member",
+  "user",
+  "channel",
+  "group",
+  "shared",
+];
+
+/** 交互键，以 Bot ID 开头，不同 Bot 的交互互不影响 */
 type InteractionKey =
-  | `private:${string}`
-  | `group:${string}:${string}`
-  | `guild:${string}:${string}:${string}`;
+  | `${string}:private:${string}`
+  | `${string}:group:${string}:${string}`
+  | `${string}:guild:${string}:${string}:${string}`
+  | `${string}:user-wide:${string}`
+  | `${string}:group-wide:${string}`
+  | `${string}:guild-wide:${string}`
+  | `${string}:channel-wide:${string}:${string}`
+  | `${string}:shared`;
+
+/** 进行中的交互 */
+interface Interaction {
+  /** 交互处理函数 */
+  handler: (event: MessageEvent) => Promise<void>;
+  /** 超时计时器 */
+  timeout?: NodeJS.Timeout;
+  /** 交互超时或被新的交互替换时调用 */
+  onAbort?: () => void;
+  /** 分步交互的步骤 ID，存在时交互会被持久化 */
+  step?: string;
+}
+
+/**
+ * 触发器权限，权限从高到低依次为：
+ * - `master` 只有主人可以使用
+ * - `owner` 群主和主人可以使用
+ * - `admin` 群管理员、群主和主人可以使用
+ * - `all` 所有人都可以使用
+ */
+type TriggerPermission = "master" | "owner" | "admin" | "all";
+
+/**
+ * 判断消息发送者是否满足权限要求
+ *
+ * 群身份优先使用消息平台信息中的 `senderRole`，其次使用 Bot 缓存的群成员信息，缓存中没有时才会查询，
+ * 不在群中时只有主人满足 `owner` 和 `admin` 权限
+ * @param event 消息事件
+ * @param permission 要求的权限
+ */
+async function checkPermission(event: MessageEvent, permission: TriggerPermission) {
+  if (permission === "all" || event.isMaster) return true;
+  if (permission === "master") return false;
+  const { groupID } = event;
+  const senderID = event.message.senderID;
+  if (!groupID || !senderID) return false;
+  // 优先使用消息中附带的群身份和缓存的群成员信息，都没有时才查询
+  const role =
+    (event.message.platform?.senderRole as InfoUserGroup["role"]) ??
+    event.bot.groupList.get(groupID)?.members.get(senderID)?.role ??
+    (await event.bot.getGroupMemberInfo(groupID, senderID))?.role;
+  if (permission === "owner") return role === "owner";
+  if (permission === "admin") return role === "owner" || role === "admin";
+  // 无法识别的权限不放行
+  getLogger("Plugin").warn(`无法识别的权限 ${permission}`);
+  return false;
+}
 
 abstract class Trigger<T> {
   readonly name: string;
@@ -64,6 +145,35 @@ class MessageTrigger extends Trigger<MessageEvent> {
     return this._regex;
   }
 
+  private readonly _command?: Command;
+  /** 结构化指令，只有使用指令定义创建触发器时存在 */
+  get command() {
+    return this._command;
+  }
+
+  private readonly _permission: TriggerPermission = "all";
+  get permission() {
+    return this._permission;
+  }
+
+  private readonly _addContent: boolean = false;
+  /** 是否为添加内容的触发器，受群配置中的 `addLimit` 和 `addPrivate` 限制 */
+  get addContent() {
+    return this._addContent;
+  }
+
+  private readonly _replyDefaults: boolean = true;
+  /** 回复时是否使用群配置作为默认值 */
+  get replyDefaults() {
+    return this._replyDefaults;
+  }
+
+  private readonly _deniedMessage?: string;
+  /** 权限不足时的提示内容，未指定时使用 Bot 配置中的 `permissionDeniedMsg` */
+  get deniedMessage() {
+    return this._deniedMessage ?? config.bot.permissionDeniedMsg;
+  }
+
   constructor({
     name,
     description,
@@ -76,32 +186,60 @@ class MessageTrigger extends Trigger<MessageEvent> {
     abort,
     wait,
     filter,
+    permission,
+    deniedMessage,
+    addContent,
+    replyDefaults,
   }: {
     name: string;
     description: string;
     event?: MessageEventIDs;
     events?: MessageEventIDs[];
-    command?: string;
+    command?: string | CommandDefinition;
     regex?: RegExp;
     priority?: number;
     handler: (event: MessageEvent) => Promise<void>;
     abort?: boolean;
     wait?: boolean;
     filter?: (event: MessageEvent) => boolean;
+    permission?: TriggerPermission;
+    deniedMessage?: string;
+    addContent?: boolean;
+    replyDefaults?: boolean;
   }) {
     super({ name, description, handler, abort, wait });
     if (event) this.events.add(event);
     if (events) events.forEach((e) => this.events.add(e));
     if (this.events.size === 0) this.events.add("message");
+    if (typeof command === "object") this._command = new Command(command);
     if (regex) this._regex = new RegExp(regex);
+    else if (this._command) this._regex = this._command.regex;
     else if (command) this._regex = new RegExp(`^#${command}($|\\s+.*)`);
     else this._regex = new RegExp(`^#${name}($|\\s+.*)`);
     if (priority) this._priority = priority;
     if (filter) this.filter = filter;
+    if (permission) this._permission = permission;
+    if (deniedMessage !== undefined) this._deniedMessage = deniedMessage;
+    if (addContent !== undefined) this._addContent = addContent;
+    if (replyDefaults !== undefined) this._replyDefaults = replyDefaults;
+  }
+
+  /**
+   * 判断消息发送者是否有权限使用此触发器
+   *
+   * 添加内容的触发器还需要满足群配置中的 `addLimit`，私聊中需要 `addPrivate` 开启，主人不受限制
+   * @param event 消息事件
+   */
+  async hasPermission(event: MessageEvent) {
+    if (!(await checkPermission(event, this._permission))) return false;
+    if (!this._addContent || event.isMaster) return true;
+    const groupConfig = event.bot.getGroupConfig(event.groupID);
+    if (!event.groupID) return Boolean(groupConfig.addPrivate);
+    return checkPermission(event, groupConfig.addLimit ?? "all");
   }
 
   filter(event: MessageEvent): boolean {
-    return this.regex.test(event.message.toString());
+    return this.regex.test(event.normalizedMessage.toString());
   }
 
   private filterType(event: MessageEvent): boolean {
@@ -125,6 +263,33 @@ class MessageTrigger extends Trigger<MessageEvent> {
   async handle(event: MessageEvent): Promise<boolean> {
     if (!this.filterType(event)) return false;
     if (this.filter(event)) {
+      event.replyDefaults = this._replyDefaults;
+      // 没有权限时按配置回复提示，同时不再交给后续触发器
+      if (!(await this.hasPermission(event))) {
+        getLogger(this.name).debug(`用户 ${event.message.senderID} 没有权限使用指令 ${this.name}`);
+        if (this.deniedMessage) await event.reply(this.deniedMessage);
+        return true;
+      }
+      // 冷却中的指令不做任何回应，同时不再交给后续触发器
+      if (isCoolingDown(event)) {
+        getLogger(this.name).debug(`指令 ${this.name} 冷却中，已忽略`);
+        return true;
+      }
+      // 同一个事件会依次交给多个触发器，先清除之前的触发器解析出的参数
+      event.args = {};
+      event.flags = {};
+      // 解析结构化指令的参数，失败时回复指令用法
+      if (this._command) {
+        const result = this._command.parse(event.normalizedMessage);
+        if ("error" in result) {
+          await event.reply(`${result.error}\n${this._command.getUsage(this.description)}`);
+          return true;
+        }
+        event.args = result.args;
+        event.flags = result.flags;
+      }
+      // 解析失败只回复用法，不开始冷却
+      setCooldown(event);
       if (this._wait) {
         await this.handler(event);
       } else {
@@ -196,30 +361,60 @@ class NoticeTrigger<NoticeEventID extends NoticeEventIDs | string> extends Trigg
   }
 }
 
-class ScheduleTrigger extends Trigger<void> {
+class ScheduleTrigger extends Trigger<ScheduleContext> {
   readonly events: Set<"schedule"> = new Set<"schedule">().add("schedule");
   readonly cron: string;
+  /** 目标群，可以是所有 Bot 共用的群 ID 列表，也可以是 Bot ID 到群 ID 列表的映射，`all` 为未单独配置的 Bot */
+  readonly targets: string[] | Record<string, string[]>;
+  /** 计划任务的配置 */
+  readonly config: Record<string, unknown>;
+  /** 上次执行尚未结束时跳过本次执行 */
+  readonly noOverlap: boolean;
+  /** 启动时如果错过了执行，立即补执行一次 */
+  readonly catchUp: boolean;
+  /** 执行超时时间，单位秒，不存在时不限制 */
+  readonly timeout?: number;
 
   constructor({
     name,
     description,
     cron,
+    targets,
+    config,
+    noOverlap = false,
+    catchUp = false,
+    timeout,
     handler,
   }: {
     name: string;
     description: string;
     cron: string;
-    handler: () => Promise<void>;
+    targets?: string[] | Record<string, string[]>;
+    config?: Record<string, unknown>;
+    noOverlap?: boolean;
+    catchUp?: boolean;
+    timeout?: number;
+    handler: (context: ScheduleContext) => Promise<void>;
   }) {
     super({ name, description, handler });
     this.cron = cron;
+    this.targets = targets ?? [];
+    this.config = config ?? {};
+    this.noOverlap = noOverlap;
+    this.catchUp = catchUp;
+    this.timeout = timeout;
   }
 
-  async handle() {
-    await this.handler();
+  async handle(context: ScheduleContext) {
+    await this.handler(context);
   }
 }
 
+/**
+ * 插件
+ *
+ * 添加消息或事件触发器、修改优先级时会触发 `change` 事件，加载器据此使 Bot 的分发计划失效
+ */
 class Plugin extends EventEmitter {
   readonly id;
   readonly name;
@@ -241,7 +436,9 @@ class Plugin extends EventEmitter {
     return this._priority;
   }
   set priority(priority: number) {
+    if (this._priority === priority) return;
     this._priority = priority;
+    this.emit("change");
   }
 
   protected _messageTriggers: MessageTrigger[] = [];
@@ -264,17 +461,20 @@ class Plugin extends EventEmitter {
     return this._schedules;
   }
 
-  protected _interactions = new Map<
-    InteractionKey,
-    {
-      handler: (event: MessageEvent) => Promise<void>;
-      timeout?: NodeJS.Timeout;
-    }
-  >();
+  protected _interactions = new Map<InteractionKey, Interaction>();
   get interactions() {
     return this._interactions;
   }
 
+  /** 分步交互的步骤处理函数，步骤 ID 为键 */
+  protected _steps = new Map<string, (event: MessageEvent, state: unknown) => Promise<void>>();
+  get steps() {
+    return this._steps;
+  }
+
+  /** 已恢复持久化交互的 Bot ID */
+  protected _restoredBots = new Set<string>();
+
   constructor({
     id,
     name,
@@ -297,16 +497,56 @@ class Plugin extends EventEmitter {
     if (priority) this.priority = priority;
   }
 
-  async onMessage(messageEvent: MessageEvent) {
-    const interactKey = this.getInteractKey(messageEvent);
-    if (interactKey) {
-      if (this.interactions.has(interactKey)) {
-        this.interactions.get(interactKey)?.handler(messageEvent);
+  /**
+   * 处理插件中进行中的交互
+   *
+   * 不指定范围时按照范围的优先级查找交互，交互处理函数出错时交互会结束
+   * @param messageEvent 消息事件
+   * @param scope 只处理指定范围的交互
+   * @returns 消息是否被交互处理
+   */
+  async handleInteraction(messageEvent: MessageEvent, scope?: InteractionScope) {
+    const interactKeys = scope
+      ? [this.getInteractKey(messageEvent, scope)]
+      : this.getInteractKeys(messageEvent);
+    for (const interactKey of interactKeys) {
+      const interaction = interactKey && this.interactions.get(interactKey);
+      if (interaction) {
+        messageEvent.plugin = this;
+        interaction.handler(messageEvent).catch((error) => {
+          getLogger(this.name).error([`插件 ${this.name} 处理交互失败`, error]);
+          // 出错后结束交互，等待中的 prompt() 会得到 undefined，处理函数已开始新的交互时不影响新的交互
+          if (this.interactions.get(interactKey) !== interaction) return;
+          clearTimeout(interaction.timeout);
+          this.interactions.delete(interactKey);
+          interaction.onAbort?.();
+          if (interaction.step) {
+            this.deleteStoredInteraction(interactKey).catch((error) =>
+              getLogger(this.name).error([`删除交互 ${interactKey} 失败`, error]),
+            );
+          }
+        });
         return true;
       }
     }
+    return false;
+  }
+
+  /**
+   * 只在此插件内分发消息
+   *
+   * Bot 使用全局分发计划分发消息，不会调用此方法
+   * @param messageEvent 消息事件
+   * @returns 消息是否被处理
+   */
+  async onMessage(messageEvent: MessageEvent) {
+    if (await this.handleInteraction(messageEvent)) return true;
+    const { bot, groupID } = messageEvent;
+    if (!this.isEnabled(bot, groupID)) return false;
     this._messageTriggers.sort((a, b) => b.priority - a.priority);
     for (const trigger of this._messageTriggers) {
+      if (!this.isEnabled(bot, groupID, trigger)) continue;
+      messageEvent.plugin = this;
       if (await trigger.handle(messageEvent)) return true;
     }
     return false;
@@ -319,14 +559,51 @@ class Plugin extends EventEmitter {
     }
   }
 
+  /**
+   * 只在此插件内分发事件
+   *
+   * Bot 使用全局分发计划分发事件，不会调用此方法
+   * @param event 事件
+   * @returns 事件是否被处理
+   */
   async onNotice<NoticeEventID extends NoticeEventIDs | string>(event: NoticeEvent<NoticeEventID>) {
+    const { bot, groupID } = event;
+    if (!this.isEnabled(bot, groupID)) return false;
     this._noticeTriggers.sort((a, b) => b.priority - a.priority);
     for (const trigger of this._noticeTriggers) {
+      if (!this.isEnabled(bot, groupID, trigger)) continue;
       if (await trigger.handle(event)) return true;
     }
     return false;
   }
 
+  /**
+   * 判断插件或触发器在群中是否启用
+   *
+   * 按照群组配置中的 enable 和 disable 判断，名称可以是插件名称或触发器名称：
+   * - 插件名称或触发器名称在 disable 中时不启用
+   * - enable 不为空时，只有插件名称或触发器名称在 enable 中时才启用
+   *
+   * 不指定触发器时，只要插件中有触发器在 enable 中，插件就视为启用
+   * @param bot 机器人
+   * @param groupID 群 ID，不在群中时总是启用
+   * @param trigger 要判断的触发器，不指定时判断插件本身
+   */
+  isEnabled(bot: Bot, groupID?: string, trigger?: { readonly name: string }) {
+    if (!groupID) return true;
+    const groupConfig = bot.getGroupConfig(groupID);
+    const disable = (groupConfig.disable ?? []).filter(Boolean);
+    const enable = (groupConfig.enable ?? []).filter(Boolean);
+
+    if (disable.includes(this.name)) return false;
+    if (trigger && disable.includes(trigger.name)) return false;
+    if (enable.length === 0 || enable.includes(this.name)) return true;
+    if (trigger) return enable.includes(trigger.name);
+    return [...this._messageTriggers, ...this._noticeTriggers].some((trigger) =>
+      enable.includes(trigger.name),
+    );
+  }
+
   /**
    * 添加 Bot 连接触发器
    * @param name 触发器名称
@@ -354,30 +631,48 @@ class Plugin extends EventEmitter {
    *
    * `event` 与 `events` 可任选其一或同时指定，同时指定时取并集。如果都不指定，则默认为 `message`。
    *
-   * `regex` 的优先级高于 `command`，如果同时指定，则只会使用 `regex`。
+   * `regex` 的优先级高于 `command`，如果同时指定，则只会使用 `regex` 匹配消息。
    * 如果不指定 `regex` 而指定 `command`，则生成的正则表达式为 `^#${command}($|\\s+.*)`。
+   *
+   * `command` 也可以是结构化指令定义，包含指令名称、别名、位置参数和选项。
+   * 此时会匹配 `#名称` 和 `#别名`，并在调用 `handler` 前解析参数，
+   * 解析结果保存在 `event.args` 和 `event.flags` 中，类型由指令定义推断。解析失败时会自动回复由 `description` 生成的指令用法。
    * 如果都不指定，则生成的正则表达式为 `^#${name}($|\\s+.*)`。
    *
    * 如果 `abort` 为 true，则如果当前触发器触发，后续触发器不会被执行。
    *
-   * 如果 `wait` 为 true，则当前触发器会等待 `handler` 执行完成后再执行后续触发器。
+   * 如果 `wait` 为 true，则当前触发器会等待 `handler` 执行完成后再执行后续触发器，
+   * `handler` 中使用 `event.prompt` 等待回复时会一直等到对话结束。
    *
    * `filter` 方法用于过滤消息，返回 true 时触发，返回 false 时不触发。
-   * 默认情况下，`filter` 方法会用正则表达式过滤消息的字符串形式。
+   * 默认情况下，`filter` 方法会用正则表达式过滤预处理后消息（`event.normalizedMessage`）的字符串形式，
+   * 预处理会去除 @ 机器人的块和开头的机器人别名。
    * 你可以重写 `filter` 方法来实现自定义的过滤逻辑。
+   *
+   * `permission` 可以为 `master`、`owner`、`admin` 或 `all`，分别表示主人、群主、群管理员和所有人，
+   * 高权限的用户总是可以使用低权限的触发器。权限不足时回复 `deniedMessage`，
+   * 未指定时使用 Bot 配置中的 `permissionDeniedMsg`，都为空时不做任何回应。
+   *
+   * 如果 `addContent` 为 true，则触发器视为添加内容的操作，还会受群配置中 `addLimit` 和 `addPrivate` 的限制。
+   *
+   * `event.reply` 默认使用群配置中的 `addReply`、`addRecall` 和 `addAt`，`replyDefaults` 为 false 时不使用。
    * @param name 触发器名称
    * @param description 触发器描述
    * @param event 触发器事件，可以为 `message`、`message.private`、`message.group`、`message.guild`
    * @param events 触发器事件列表
-   * @param command 触发器命令
+   * @param command 触发器命令或结构化指令定义
    * @param regex 触发器正则表达式
    * @param priority 触发器优先级，默认为 0，值越大优先级越高
    * @param handler 触发器处理函数
    * @param abort 是否终止后续触发器，默认为 true
    * @param wait 是否等待触发器处理完成，默认为 true
    * @param filter 触发器过滤函数
+   * @param permission 触发器权限，默认为 `all`
+   * @param deniedMessage 权限不足时的提示内容
+   * @param addContent 是否为添加内容的触发器，默认为 false
+   * @param replyDefaults 回复时是否使用群配置作为默认值，默认为 true
    */
-  addTrigger({
+  addTrigger<const Definition extends CommandDefinition = CommandDefinition>({
     name,
     description,
     event,
@@ -389,37 +684,67 @@ class Plugin extends EventEmitter {
     abort,
     wait,
     filter,
+    permission,
+    deniedMessage,
+    addContent,
+    replyDefaults,
   }: {
     name: string;
     description: string;
     event?: "message" | "message.private" | "message.group" | "message.guild";
     events?: ("message" | "message.private" | "message.group" | "message.guild")[];
-    command?: string;
+    command?: string | Definition;
     regex?: RegExp;
     priority?: number;
-    handler: (event: MessageEvent) => Promise<void>;
+    handler: (event: CommandEvent<Definition>) => Promise<void>;
     abort?: boolean;
     wait?: boolean;
     filter?: (event: MessageEvent) => boolean;
+    permission?: TriggerPermission;
+    deniedMessage?: string;
+    addContent?: boolean;
+    replyDefaults?: boolean;
   }): this;
 
   /**
    * 添加 Bot 计划任务触发器
+   *
+   * `handler` 会收到计划任务的上下文，可以通过 `context.bots` 获取所有 Bot，
+   * 通过 `context.sendToGroups` 或 `context.forEachGroup` 向 `targets` 中的群发送消息。
+   * 群配置中没有启用插件或触发器的群会被跳过。
+   *
+   * `targets` 可以是所有 Bot 共用的群 ID 列表，也可以是 Bot ID 到群 ID 列表的映射，
+   * `all` 为未单独配置的 Bot，群 ID 为 `*` 时表示 Bot 所在的所有群。
    * @param name 触发器名称
    * @param description 触发器描述
    * @param cron 触发器 cron 表达式
+   * @param targets 目标群
+   * @param config 计划任务的配置，可以通过 `context.config` 获取
+   * @param noOverlap 上次执行尚未结束时是否跳过本次执行，默认不跳过
+   * @param catchUp 启动时如果错过了执行，是否立即补执行一次，默认不补执行
+   * @param timeout 执行超时时间，单位秒，超时后视为执行失败，并中止 `context.signal`，任务需要自行响应
    * @param handler 触发器处理函数
    */
   addTrigger({
     name,
     description,
     cron,
+    targets,
+    config,
+    noOverlap,
+    catchUp,
+    timeout,
     handler,
   }: {
     name: string;
     description: string;
     cron: string;
-    handler: () => Promise<void>;
+    targets?: string[] | Record<string, string[]>;
+    config?: Record<string, unknown>;
+    noOverlap?: boolean;
+    catchUp?: boolean;
+    timeout?: number;
+    handler: (context: ScheduleContext) => Promise<void>;
   }): this;
 
   /**
@@ -452,31 +777,49 @@ class Plugin extends EventEmitter {
     command,
     regex,
     cron,
+    targets,
+    config,
+    noOverlap,
+    catchUp,
+    timeout,
     priority,
     handler,
     abort,
     wait,
     filter,
+    permission,
+    deniedMessage,
+    addContent,
+    replyDefaults,
   }: {
     name: string;
     description: string;
     event?: EventIDs;
     events?: EventIDs[];
-    command?: string;
+    command?: string | CommandDefinition;
     regex?: RegExp;
     cron?: string;
+    targets?: string[] | Record<string, string[]>;
+    config?: Record<string, unknown>;
+    noOverlap?: boolean;
+    catchUp?: boolean;
+    timeout?: number;
     priority?: number;
     handler:
       | ((event: MessageEvent) => Promise<void>)
       | ((event: ConnectEvent) => Promise<void>)
       | ((event: NoticeEvent<NoticeEventID>) => Promise<void>)
-      | (() => Promise<void>);
+      | ((context: ScheduleContext) => Promise<void>);
     abort?: boolean;
     wait?: boolean;
     filter?:
       | ((event: MessageEvent) => boolean)
       | ((event: ConnectEvent) => boolean)
       | ((event: NoticeEvent<NoticeEventID>) => boolean);
+    permission?: TriggerPermission;
+    deniedMessage?: string;
+    addContent?: boolean;
+    replyDefaults?: boolean;
   }) {
     if (cron) {
       try {
@@ -488,7 +831,17 @@ class Plugin extends EventEmitter {
         return this;
       }
       this._schedules.push(
-        new ScheduleTrigger({ name, description, cron, handler: handler as () => Promise<void> }),
+        new ScheduleTrigger({
+          name,
+          description,
+          cron,
+          targets,
+          config,
+          noOverlap,
+          catchUp,
+          timeout,
+          handler: handler as (context: ScheduleContext) => Promise<void>,
+        }),
       );
       return this;
     } else if (event === "connect") {
@@ -533,6 +886,10 @@ class Plugin extends EventEmitter {
             abort,
             wait,
             filter: filter as (event: MessageEvent) => boolean,
+            permission,
+            deniedMessage,
+            addContent,
+            replyDefaults,
           }),
         );
       } else {
@@ -546,81 +903,335 @@ class Plugin extends EventEmitter {
           }),
         );
       }
+      this.emit("change");
     }
     return this;
   }
 
-  getInteractKey(event: MessageEvent): InteractionKey | undefined {
+  /**
+   * 获取消息在指定范围内的交互键，同一个 Bot 中属于同一范围的消息使用相同的交互键
+   * @param event 消息事件
+   * @param scope 交互范围，默认为 `member`
+   */
+  getInteractKey(
+    event: MessageEvent,
+    scope: InteractionScope = "member",
+  ): InteractionKey | undefined {
     const target = event.message.target;
     if (!target) {
       getLogger(this.name).error("获取消息 Interact Key 失败，消息目标为空");
       return undefined;
     }
+    const botID = event.bot.id;
+    const senderID = event.message.senderID;
+    if (scope === "user") return `${botID}:user-wide:${senderID}`;
+    if (scope === "shared") return `${botID}:shared`;
     switch (target.type) {
       case "person":
-        return `private:${event.message.senderID}`;
+        return `${botID}:private:${senderID}`;
       case "group":
-        return `group:${event.message.senderID}:${target.groupID}`;
+        if (scope === "member") return `${botID}:group:${senderID}:${target.groupID}`;
+        return `${botID}:group-wide:${target.groupID}`;
       case "guild":
-        return `guild:${event.message.senderID}:${target.guildID}:${target.channelID}`;
+        if (scope === "member") {
+          return `${botID}:guild:${senderID}:${target.guildID}:${target.channelID}`;
+        }
+        if (scope === "channel")
+          return `${botID}:channel-wide:${target.guildID}:${target.channelID}`;
+        return `${botID}:guild-wide:${target.guildID}`;
     }
   }
 
+  /**
+   * 按照范围的优先级获取消息的全部交互键
+   * @param event 消息事件
+   */
+  getInteractKeys(event: MessageEvent) {
+    const keys = interactionScopes.flatMap((scope) => this.getInteractKey(event, scope) ?? []);
+    return [...new Set(keys)];
+  }
+
+  /**
+   * 开始交互，之后属于交互范围的消息都会交给 `handler` 处理，直到交互结束
+   *
+   * 同一范围内已有进行中的交互时，旧的交互会被替换
+   * @param event 消息事件
+   * @param handler 交互处理函数
+   * @param timeoutSeconds 超时时间，单位秒，不指定时不会超时
+   * @param timeoutMessage 超时时回复的消息，为空时不回复
+   * @param onAbort 交互超时或被替换时调用
+   * @param scope 交互范围，默认为 `member`
+   */
   startInteract(
     event: MessageEvent,
     handler: (e: MessageEvent) => Promise<void>,
     timeoutSeconds?: number,
     timeoutMessage = "操作超时已取消",
+    onAbort?: () => void,
+    scope: InteractionScope = "member",
   ) {
-    const key = this.getInteractKey(event);
+    const key = this.getInteractKey(event, scope);
     if (key) {
+      const previous = this.interactions.get(key);
+      if (previous) {
+        clearTimeout(previous.timeout);
+        previous.onAbort?.();
+        if (previous.step) {
+          this.deleteStoredInteraction(key).catch((error) =>
+            getLogger(this.name).error([`删除交互 ${key} 失败`, error]),
+          );
+        }
+      }
       this.interactions.set(key, {
         handler,
         timeout: timeoutSeconds
           ? setTimeout(() => {
               this.interactions.delete(key);
-              event.reply(timeoutMessage, true);
+              if (timeoutMessage) {
+                event
+                  .reply(timeoutMessage, true)
+                  .catch((error) => getLogger(this.name).error(["回复交互超时提示失败", error]));
+              }
+              onAbort?.();
             }, timeoutSeconds * 1000)
           : undefined,
+        onAbort,
       });
     } else {
       getLogger(this.name).error("建立交互失败");
     }
   }
 
-  getInteract(event: MessageEvent):
-    | {
-        handler: (e: MessageEvent) => Promise<void>;
-        timeout?: NodeJS.Timeout;
-      }
-    | undefined;
-  getInteract(interactionKey: InteractionKey):
-    | {
-        handler: (e: MessageEvent) => Promise<void>;
-        timeout?: NodeJS.Timeout;
-      }
-    | undefined;
-  getInteract(event: MessageEvent | InteractionKey) {
+  /**
+   * 查找处理消息的交互键，不指定范围时按照范围的优先级查找第一个存在的交互
+   * @param event 消息事件
+   * @param scope 交互范围
+   */
+  protected findInteractKey(event: MessageEvent, scope?: InteractionScope) {
+    if (scope) return this.getInteractKey(event, scope);
+    return this.getInteractKeys(event).find((key) => this.interactions.has(key));
+  }
+
+  /**
+   * 获取处理消息的交互
+   * @param event 消息事件
+   * @param scope 交互范围，不指定时按照范围的优先级查找
+   */
+  getInteract(event: MessageEvent, scope?: InteractionScope): Interaction | undefined;
+  /**
+   * 获取交互
+   * @param interactionKey 交互键
+   */
+  getInteract(interactionKey: InteractionKey): Interaction | undefined;
+  getInteract(event: MessageEvent | InteractionKey, scope?: InteractionScope) {
     if (event instanceof MessageEvent) {
-      const key = this.getInteractKey(event);
-      if (!key) {
-        getLogger(this.name).error("获取消息 Interact Key 失败，消息目标为空");
-        return undefined;
-      }
-      return this.interactions.get(key);
+      const key = this.findInteractKey(event, scope);
+      return key ? this.interactions.get(key) : undefined;
     }
     return this.interactions.get(event);
   }
 
-  finishInteract(event: MessageEvent) {
-    const key = this.getInteractKey(event);
+  /**
+   * 结束处理消息的交互
+   * @param event 消息事件
+   * @param scope 交互范围，不指定时按照范围的优先级查找
+   */
+  finishInteract(event: MessageEvent, scope?: InteractionScope) {
+    const key = this.findInteractKey(event, scope);
     if (!key) return;
     const interaction = this.interactions.get(key);
     if (interaction) {
       clearTimeout(interaction.timeout);
       this.interactions.delete(key);
+      if (interaction.step) {
+        this.deleteStoredInteraction(key).catch((error) =>
+          getLogger(this.name).error([`删除交互 ${key} 失败`, error]),
+        );
+      }
+    }
+  }
+
+  /**
+   * 注册分步交互的步骤
+   *
+   * 分步交互的状态会保存到交互存储中，重启或重载插件后仍然可以继续，
+   * 因此步骤处理函数需要在插件加载时注册，状态需要可以序列化为 JSON
+   * @param step 步骤 ID，在插件中唯一
+   * @param handler 步骤处理函数，参数为用户回复的消息事件和进入步骤时的状态
+   */
+  addStep<S>(step: string, handler: (event: MessageEvent, state: S) => Promise<void>) {
+    if (this._steps.has(step)) {
+      getLogger(this.name).warn(`插件 ${this.name} 的步骤 ${step} 重复注册，已覆盖`);
+    }
+    this._steps.set(step, handler as (event: MessageEvent, state: unknown) => Promise<void>);
+    return this;
+  }
+
+  /**
+   * 进入分步交互的步骤，之后属于交互范围的消息会交给步骤处理函数处理
+   *
+   * 已有进行中的交互时，旧的交互会被替换
+   * @param event 消息事件
+   * @param step 步骤 ID
+   * @param state 步骤状态，需要可以序列化为 JSON
+   * @param timeoutSeconds 超时时间，单位秒，不指定时不会超时
+   * @param timeoutMessage 超时时发送的消息，为空时不发送
+   * @param scope 交互范围，默认为 `member`
+   */
+  async startStep(
+    event: MessageEvent,
+    step: string,
+    state?: unknown,
+    timeoutSeconds?: number,
+    timeoutMessage = "操作超时已取消",
+    scope: InteractionScope = "member",
+  ) {
+    if (!this._steps.has(step)) {
+      getLogger(this.name).error(`插件 ${this.name} 没有注册步骤 ${step}，无法进入`);
+      return;
     }
+    const key = this.getInteractKey(event, scope);
+    const target = event.message.target;
+    const senderID = event.message.senderID;
+    if (!key || !target || !senderID) {
+      getLogger(this.name).error("建立交互失败");
+      return;
+    }
+
+    const interaction: StoredInteraction = {
+      pluginID: this.id,
+      botID: event.bot.id,
+      key,
+      step,
+      state: state ?? null,
+      deadline: timeoutSeconds ? Date.now() + timeoutSeconds * 1000 : undefined,
+      timeoutMessage: timeoutMessage || undefined,
+      // 私聊消息的目标是 Bot 自己，超时消息需要发送给用户
+      target:
+        target.type === "group"
+          ? { type: "group", groupID: target.groupID }
+          : target.type === "guild"
+            ? { type: "guild", guildID: target.guildID, channelID: target.channelID }
+            : { type: "person", userID: senderID },
+    };
+
+    const previous = this.interactions.get(key);
+    if (previous) {
+      clearTimeout(previous.timeout);
+      previous.onAbort?.();
+    }
+    this.installStep(event.bot, interaction);
+    await (await getInteractionStore()).set(interaction);
+  }
+
+  /**
+   * 从交互存储中恢复 Bot 的分步交互，每个 Bot 只会恢复一次
+   *
+   * 已超时的交互会发送超时消息后删除，没有注册对应步骤的交互会直接删除
+   * @param bot 机器人
+   */
+  async restoreInteractions(bot: Bot) {
+    if (this._restoredBots.has(bot.id)) return;
+    this._restoredBots.add(bot.id);
+
+    let interactions: StoredInteraction[];
+    try {
+      interactions = await (await getInteractionStore()).list(this.id);
+    } catch (error) {
+      // 交互存储不可用时允许之后重试
+      this._restoredBots.delete(bot.id);
+      getLogger(this.name).error([`恢复插件 ${this.name} 的交互失败`, error]);
+      return;
+    }
+    for (const interaction of interactions) {
+      if (interaction.botID !== bot.id || this.interactions.has(interaction.key)) continue;
+      // 单个交互恢复失败不影响其他交互，也不影响 Bot 连接后的其他处理
+      try {
+        if (!this._steps.has(interaction.step)) {
+          getLogger(this.name).warn(
+            `插件 ${this.name} 没有注册步骤 ${interaction.step}，已删除交互 ${interaction.key}`,
+          );
+          await this.deleteStoredInteraction(interaction.key);
+        } else if (interaction.deadline && interaction.deadline <= Date.now()) {
+          await this.expireStep(bot, interaction);
+        } else {
+          this.installStep(bot, interaction);
+          getLogger(this.name).debug(`已恢复交互 ${interaction.key} 的步骤 ${interaction.step}`);
+        }
+      } catch (error) {
+        getLogger(this.name).error([`恢复交互 ${interaction.key} 失败`, error]);
+      }
+    }
+  }
+
+  /**
+   * 清除内存中的全部交互，不会删除交互存储中的分步交互
+   *
+   * 插件被卸载或替换时调用，避免旧插件的超时计时器继续运行，
+   * 同时调用交互的 `onAbort`，使等待中的 `prompt()` 结束
+   */
+  clearInteractions() {
+    for (const interaction of this.interactions.values()) {
+      clearTimeout(interaction.timeout);
+      interaction.onAbort?.();
+    }
+    this.interactions.clear();
+    this._restoredBots.clear();
+  }
+
+  /**
+   * 把分步交互加入内存，并按照超时时间设置计时器
+   * @param bot 机器人
+   * @param interaction 分步交互
+   */
+  protected installStep(bot: Bot, interaction: StoredInteraction) {
+    const { key, step, state, deadline } = interaction;
+    this.interactions.set(key, {
+      handler: async (event) => this._steps.get(step)?.(event, state),
+      // 超过 setTimeout 的最长等待时间时分段等待，未到期时重新设置计时器
+      timeout: deadline
+        ? setTimeout(
+            () => {
+              if (Date.now() < deadline) {
+                this.installStep(bot, interaction);
+                return;
+              }
+              this.expireStep(bot, interaction).catch((error) =>
+                getLogger(this.name).error([`交互 ${interaction.key} 超时处理失败`, error]),
+              );
+            },
+            Math.min(Math.max(deadline - Date.now(), 0), utils.maxTimeoutMs),
+          )
+        : undefined,
+      step,
+    });
+  }
+
+  /**
+   * 分步交互超时，发送超时消息并删除交互
+   * @param bot 机器人
+   * @param interaction 分步交互
+   */
+  protected async expireStep(bot: Bot, interaction: StoredInteraction) {
+    if (this.interactions.get(interaction.key)?.step === interaction.step) {
+      this.interactions.delete(interaction.key);
+    }
+    await this.deleteStoredInteraction(interaction.key);
+    if (interaction.timeoutMessage) {
+      await bot.sendMessage(interaction.timeoutMessage, interaction.target);
+    }
+  }
+
+  /**
+   * 从交互存储中删除分步交互
+   * @param key 交互键
+   */
+  protected async deleteStoredInteraction(key: InteractionKey) {
+    await (await getInteractionStore()).delete(this.id, key);
   }
 }
 
+export type { Interaction, InteractionKey, InteractionScope, TriggerPermission };
+export { checkPermission, interactionScopes };
+export { MessageTrigger, ConnectTrigger, NoticeTrigger, ScheduleTrigger };
 export default Plugin;
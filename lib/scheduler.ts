@@ -0,0 +1,356 @@
+/**
+ * @description 定时任务服务，管理插件和系统的定时任务
+ *
+ * 可以列出全部任务，暂停、恢复任务，立即执行任务，以及查看任务上次执行的耗时和错误。
+ * 任务可以设置禁止重叠执行、补执行停机期间错过的任务和执行超时，上次执行时间会保存在 data 目录中。
+ */
+import { randomUUID, type UUID } from "node:crypto";
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import { CronExpressionParser } from "cron-parser";
+import schedule from "node-schedule";
+
+import config from "yuzai/config";
+import { getLogger } from "yuzai/logger";
+import * as utils from "yuzai/utils";
+
+const logger = getLogger("Scheduler");
+
+/** 定时任务选项 */
+interface ScheduleTaskOptions {
+  /** 上次执行尚未结束时跳过本次执行 */
+  readonly noOverlap?: boolean;
+  /** 启动时如果错过了执行，立即补执行一次 */
+  readonly catchUp?: boolean;
+  /**
+   * 执行超时时间，单位秒，超时后任务会被视为失败，并通过处理函数的 `signal` 通知任务中止
+   *
+   * 任务不响应 `signal` 时会继续执行，执行结束前仍视为正在执行，设置了 `noOverlap` 时之后的执行会被跳过
+   */
+  readonly timeout?: number;
+}
+
+/** 定时任务 */
+interface ScheduleTask {
+  /** 定时任务ID */
+  readonly id: UUID;
+  /** 插件ID */
+  readonly from: string;
+  /** 定时任务名称 */
+  readonly name: string;
+  /** cron表达式 */
+  readonly cron: string;
+  /** Schedule.Job 对象 */
+  job?: schedule.Job;
+  /** 定时任务处理函数，`signal` 在执行超时时中止 */
+  readonly handler: (signal: AbortSignal) => Promise<void>;
+  /** 定时任务选项 */
+  readonly options: ScheduleTaskOptions;
+  /** 是否已暂停 */
+  paused: boolean;
+  /** 是否正在执行 */
+  running: boolean;
+  /** 正在进行的执行是否已经超时 */
+  timedOut?: boolean;
+  /** 上次开始执行的时间戳 */
+  lastRunTime?: number;
+  /** 上次执行的耗时，单位毫秒 */
+  lastDuration?: number;
+  /** 上次执行的错误，执行成功时为 undefined */
+  lastError?: unknown;
+}
+
+/** 定时任务的状态信息 */
+interface ScheduleTaskInfo {
+  readonly id: UUID;
+  readonly from: string;
+  readonly name: string;
+  readonly cron: string;
+  readonly paused: boolean;
+  readonly running: boolean;
+  /** 下次执行的时间戳，已暂停时为 undefined */
+  readonly nextRunTime?: number;
+  readonly lastRunTime?: number;
+  readonly lastDuration?: number;
+  readonly lastError?: unknown;
+}
+
+class Scheduler {
+  /** 定时任务列表 */
+  protected _tasks = new Map<UUID, ScheduleTask>();
+  get tasks() {
+    return this._tasks;
+  }
+
+  /** 持久化的上次执行时间，来源和任务名称为键 */
+  protected _lastRunTimes?: Promise<Record<string, number>>;
+
+  /** 正在进行的执行记录写入，保证写入按顺序进行 */
+  protected _saving = Promise.resolve();
+
+  protected _resolveReady?: () => void;
+  /** 第一个 Bot 连接后完成，补执行需要等待它，否则任务执行时还没有可用的 Bot */
+  protected _ready = new Promise<void>((resolve) => (this._resolveReady = resolve));
+
+  /** 上次执行时间记录文件路径 */
+  protected get recordFile() {
+    return path.resolve(config.rootDir, "data", "schedule_last_run.json");
+  }
+
+  /**
+   * 标准化 cron 表达式，取前6个空格分隔的部分
+   * @param cron cron 表达式
+   */
+  protected normalizeCron(cron: string) {
+    return cron.split(/\s+/).slice(0, 6).join(" ");
+  }
+
+  /**
+   * 添加定时任务
+   * @param from 任务来源，插件任务为插件ID
+   * @param name 任务名称
+   * @param cron cron 表达式
+   * @param handler 任务处理函数，参数为执行超时时中止的 `AbortSignal`
+   * @param options 任务选项
+   * @returns 添加的任务
+   */
+  add(
+    from: string,
+    name: string,
+    cron: string,
+    handler: (signal: AbortSignal) => Promise<void>,
+    options: ScheduleTaskOptions = {},
+  ) {
+    const task: ScheduleTask = {
+      id: randomUUID(),
+      from,
+      name,
+      cron,
+      handler,
+      options,
+      paused: false,
+      running: false,
+    };
+    task.job = schedule.scheduleJob(this.normalizeCron(cron), () => this.execute(task));
+    if (!task.job) logger.error(`定时任务 ${name} 的 cron 表达式 "${cron}" 无效，任务不会自动执行`);
+    this._tasks.set(task.id, task);
+    // noinspection ES6MissingAwait
+    this.restoreLastRunTime(task);
+    return task;
+  }
+
+  /**
+   * 有 Bot 连接时调用，开始补执行启动前错过的任务
+   */
+  ready() {
+    this._resolveReady?.();
+  }
+
+  /**
+   * 删除来源的全部定时任务
+   * @param from 任务来源
+   */
+  removeFrom(from: string) {
+    for (const task of this._tasks.values()) {
+      if (task.from !== from) continue;
+      task.job?.cancel();
+      this._tasks.delete(task.id);
+    }
+  }
+
+  /**
+   * 判断来源是否有定时任务
+   * @param from 任务来源
+   */
+  hasFrom(from: string) {
+    return [...this._tasks.values()].some((task) => task.from === from);
+  }
+
+  /**
+   * 按照ID或名称查找定时任务
+   * @param nameOrID 任务ID或名称
+   * @returns 匹配的任务列表
+   */
+  find(nameOrID: string) {
+    return [...this._tasks.values()].filter(
+      (task) => task.id === nameOrID || task.name === nameOrID,
+    );
+  }
+
+  /**
+   * 列出全部定时任务的状态信息
+   */
+  list(): ScheduleTaskInfo[] {
+    return [...this._tasks.values()].map((task) => ({
+      id: task.id,
+      from: task.from,
+      name: task.name,
+      cron: task.cron,
+      paused: task.paused,
+      running: task.running,
+      nextRunTime: task.paused ? undefined : task.job?.nextInvocation()?.getTime(),
+      lastRunTime: task.lastRunTime,
+      lastDuration: task.lastDuration,
+      lastError: task.lastError,
+    }));
+  }
+
+  /**
+   * 暂停定时任务，暂停后不会自动执行，但仍然可以立即执行
+   * @param task 要暂停的任务
+   * @returns 是否暂停成功
+   */
+  pause(task: ScheduleTask) {
+    if (task.paused) return false;
+    task.job?.cancel();
+    task.paused = true;
+    logger.info(`已暂停定时任务 ${task.name}`);
+    return true;
+  }
+
+  /**
+   * 恢复已暂停的定时任务
+   * @param task 要恢复的任务
+   * @returns 是否恢复成功
+   */
+  resume(task: ScheduleTask) {
+    if (!task.paused) return false;
+    if (task.job && !task.job.reschedule(this.normalizeCron(task.cron))) {
+      logger.error(`恢复定时任务 ${task.name} 失败`);
+      return false;
+    }
+    task.paused = false;
+    logger.info(`已恢复定时任务 ${task.name}`);
+    return true;
+  }
+
+  /**
+   * 立即执行定时任务，不影响任务的计划
+   * @param task 要执行的任务
+   */
+  async run(task: ScheduleTask) {
+    await this.execute(task);
+  }
+
+  /**
+   * 执行定时任务，并记录执行时间、耗时和错误
+   * @param task 要执行的任务
+   */
+  protected async execute(task: ScheduleTask) {
+    // 格式化任务名称用于日志
+    const name = `${logger.blue(`[${task.name}(${task.cron})]`)}`;
+    if (task.options.noOverlap && task.running) {
+      logger.warn(
+        task.timedOut
+          ? `${name}上次执行已超时但仍未结束，已跳过本次执行`
+          : `${name}上次执行尚未结束，已跳过本次执行`,
+      );
+      return;
+    }
+    const startTime = Date.now();
+    const controller = new AbortController();
+    task.running = true;
+    task.timedOut = false;
+    task.lastRunTime = startTime;
+    // noinspection ES6MissingAwait
+    this.saveLastRunTime(task);
+    try {
+      getLogger(task.name).mark(`${name}${logger.yellow("[开始处理]")}`);
+      const running = task.handler(controller.signal).finally(() => (task.running = false));
+      const timeout = task.options.timeout;
+      if (timeout && (await utils.wait(timeout * 1000, running)) === utils.waitTimeout) {
+        // 通知任务中止，任务不响应时会继续执行，执行结束前仍视为正在执行
+        running.catch((err) => getLogger(task.name).error([name, err]));
+        task.timedOut = true;
+        task.lastError = new Error(`执行超时（${timeout}秒）`);
+        controller.abort(task.lastError);
+        logger.error(`${name}执行超过 ${timeout} 秒，已视为失败`);
+        return;
+      }
+      await running;
+      task.lastError = undefined;
+      logger.mark(`${name}${logger.green(`[完成${utils.getTimeDiff(startTime)}]`)}`);
+    } catch (err) {
+      task.running = false;
+      task.lastError = err;
+      getLogger(task.name).error([name, err]);
+    } finally {
+      task.lastDuration = Date.now() - startTime;
+    }
+  }
+
+  /**
+   * 读取持久化的上次执行时间
+   */
+  protected loadLastRunTimes() {
+    this._lastRunTimes ??= fs
+      .readFile(this.recordFile, "utf8")
+      .then((data) => JSON.parse(data) as Record<string, number>)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 错误是任意类型
+      .catch((error: any) => {
+        if (error.code !== "ENOENT") logger.error(["读取定时任务执行记录失败", error]);
+        return {};
+      });
+    return this._lastRunTimes;
+  }
+
+  /**
+   * 保存任务的上次执行时间
+   *
+   * 写入按顺序排队，并先写入临时文件再替换，避免并发写入或中途退出损坏记录文件
+   * @param task 定时任务
+   */
+  protected saveLastRunTime(task: ScheduleTask) {
+    const lastRunTime = task.lastRunTime;
+    if (lastRunTime === undefined) return this._saving;
+    this._saving = this._saving.then(async () => {
+      const lastRunTimes = await this.loadLastRunTimes();
+      lastRunTimes[`${task.from}:${task.name}`] = lastRunTime;
+      const tempFile = `${this.recordFile}.tmp`;
+      try {
+        await fs.mkdir(path.dirname(this.recordFile), { recursive: true });
+        await fs.writeFile(tempFile, JSON.stringify(lastRunTimes));
+        await fs.rename(tempFile, this.recordFile);
+      } catch (error) {
+        logger.error(["保存定时任务执行记录失败", error]);
+      }
+    });
+    return this._saving;
+  }
+
+  /**
+   * 恢复任务的上次执行时间，设置了 `catchUp` 的任务如果错过了执行，补执行一次
+   *
+   * 插件在适配器之前加载，补执行会等到第一个 Bot 连接后再进行
+   * @param task 定时任务
+   */
+  protected async restoreLastRunTime(task: ScheduleTask) {
+    const lastRunTime = (await this.loadLastRunTimes())[`${task.from}:${task.name}`];
+    if (lastRunTime === undefined) return;
+    task.lastRunTime ??= lastRunTime;
+    if (!task.options.catchUp || task.paused) return;
+
+    let previousTime: number;
+    try {
+      previousTime = CronExpressionParser.parse(this.normalizeCron(task.cron)).prev().getTime();
+    } catch {
+      return;
+    }
+    if (previousTime <= lastRunTime) return;
+
+    await this._ready;
+    // 等待期间任务可能已被删除、暂停或已经执行过
+    if (!this._tasks.has(task.id) || task.paused) return;
+    if (task.lastRunTime !== lastRunTime) return;
+    logger.warn(
+      `定时任务 ${task.name} 错过了 ${new Date(previousTime).toLocaleString()} 的执行，正在补执行`,
+    );
+    await this.execute(task);
+  }
+}
+
+const scheduler = new Scheduler();
+
+export type { ScheduleTask, ScheduleTaskInfo, ScheduleTaskOptions };
+export default scheduler;
@@ -0,0 +1,236 @@
+/**
+ * @description 系统维护，按照 system.toml 中的 schedule 配置定时重启、关机和更新
+ *
+ * 重启通过以 `restartExitCode` 退出进程实现，需要由守护进程重新启动。
+ * 执行操作前会通知所有主人，操作的结果会在下次启动、Bot 连接后通知主人。
+ */
+import fs from "node:fs/promises";
+import path from "node:path";
+
+import type Bot from "yuzai/bot";
+import client from "yuzai/client";
+import config from "yuzai/config";
+import { installDependencies } from "yuzai/dependency-manager";
+import { getLogger } from "yuzai/logger";
+import { restartExitCode } from "yuzai/exit-code";
+import scheduler from "yuzai/scheduler";
+import * as utils from "yuzai/utils";
+
+const logger = getLogger("System");
+
+/** 系统操作 */
+type SystemAction = "restart" | "stop" | "update";
+
+/** 退出前记录的系统操作，用于下次启动时通知主人 */
+interface SystemActionRecord {
+  readonly action: SystemAction;
+  /** 操作时间戳 */
+  readonly time: number;
+  /** 操作说明，例如更新内容 */
+  readonly detail?: string;
+}
+
+/** 系统操作记录文件路径 */
+const recordFile = path.resolve(config.rootDir, "data", "system_action.json");
+
+/** 启动后等待通知主人的消息 */
+let pendingNotice: string | undefined;
+/** 已经通知过的 Bot ID */
+const notifiedBots = new Set<string>();
+
+/** 是否正在执行系统操作 */
+let busy = false;
+
+/**
+ * 通知所有 Bot 的主人
+ * @param message 通知内容
+ */
+async function notifyMasters(message: string) {
+  await Promise.allSettled(client.bots.map((bot) => notifyBotMasters(bot, message)));
+}
+
+/**
+ * 通知 Bot 的主人
+ * @param bot 机器人
+ * @param message 通知内容
+ */
+async function notifyBotMasters(bot: Bot, message: string) {
+  await Promise.allSettled(bot.masters.map((userID) => bot.sendMessage(message, { userID })));
+}
+
+/**
+ * 记录系统操作，下次启动时通知主人
+ * @param record 系统操作记录
+ */
+async function saveActionRecord(record: SystemActionRecord) {
+  try {
+    await fs.mkdir(path.dirname(recordFile), { recursive: true });
+    await fs.writeFile(recordFile, JSON.stringify(record));
+  } catch (error) {
+    logger.error(["保存系统操作记录失败", error]);
+  }
+}
+
+/**
+ * 读取并删除上次退出前的系统操作记录
+ */
+async function loadActionRecord() {
+  try {
+    const record = JSON.parse(await fs.readFile(recordFile, "utf8")) as SystemActionRecord;
+    await fs.rm(recordFile, { force: true });
+    return record;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any -- 错误是任意类型
+  } catch (error: any) {
+    if (error.code !== "ENOENT") logger.error(["读取系统操作记录失败", error]);
+    return undefined;
+  }
+}
+
+/**
+ * 在指定时间后执行，超过 setTimeout 的最长等待时间时分段等待
+ * @param callback 要执行的函数
+ * @param delayMs 等待时间，单位毫秒
+ */
+function setLongTimeout(callback: () => void, delayMs: number) {
+  const delay = Math.min(delayMs, utils.maxTimeoutMs);
+  setTimeout(
+    () => (delayMs > delay ? setLongTimeout(callback, delayMs - delay) : callback()),
+    delay,
+  ).unref();
+}
+
+/**
+ * 重启雨仔，需要守护进程重新启动
+ * @param reason 重启原因
+ */
+async function restart(reason = "定时重启") {
+  if (busy) {
+    logger.warn(`正在执行系统操作，已跳过${reason}`);
+    return;
+  }
+  busy = true;
+  logger.mark(`${reason}，正在重启`);
+  await notifyMasters(`${reason}，雨仔即将重启`);
+  await saveActionRecord({ action: "restart", time: Date.now() });
+  client.gracefulExit(restartExitCode);
+}
+
+/**
+ * 关闭雨仔
+ * @param reason 关机原因
+ */
+async function stop(reason = "定时关机") {
+  if (busy) {
+    logger.warn(`正在执行系统操作，已跳过${reason}`);
+    return;
+  }
+  busy = true;
+  logger.mark(`${reason}，正在关机`);
+  await notifyMasters(`${reason}，雨仔即将关机`);
+  await saveActionRecord({ action: "stop", time: Date.now() });
+  client.gracefulExit(0);
+}
+
+/**
+ * 更新雨仔，拉取最新代码并重新安装依赖，有更新时重启
+ * @param reason 更新原因
+ */
+async function update(reason = "定时更新") {
+  if (busy) {
+    logger.warn("正在执行系统操作，已跳过更新");
+    return;
+  }
+  busy = true;
+  let exiting = false;
+  try {
+    logger.mark(`${reason}，正在更新`);
+    await notifyMasters(`${reason}，雨仔开始更新`);
+
+    const { error, stdout, stderr } = await utils.exec("git pull --no-rebase", {
+      cwd: config.rootDir,
+    });
+    if (error) {
+      await notifyMasters(`更新失败：${stderr || error}`);
+      return;
+    }
+    if (/Already up.to.date|已经是最新的/.test(stdout)) {
+      await notifyMasters("雨仔已经是最新版本");
+      return;
+    }
+
+    try {
+      await installDependencies(".");
+    } catch (error) {
+      await notifyMasters(`更新依赖失败：${error}`);
+      return;
+    }
+
+    logger.mark("更新完成，正在重启");
+    await notifyMasters("更新完成，雨仔即将重启");
+    await saveActionRecord({ action: "update", time: Date.now(), detail: stdout });
+    exiting = true;
+    client.gracefulExit(restartExitCode);
+  } finally {
+    // 即将重启时保持 busy，避免其他系统操作在退出过程中执行
+    if (!exiting) busy = false;
+  }
+}
+
+/**
+ * Bot 连接时调用，通知主人上次退出前的系统操作结果，每个 Bot 只会通知一次
+ * @param bot 机器人
+ */
+async function onBotConnect(bot: Bot) {
+  if (!pendingNotice || notifiedBots.has(bot.id)) return;
+  notifiedBots.add(bot.id);
+  await notifyBotMasters(bot, pendingNotice);
+}
+
+/**
+ * 启动系统定时任务，并读取上次退出前的系统操作记录
+ */
+async function startSystemSchedules() {
+  const record = await loadActionRecord();
+  if (record) {
+    const time = new Date(record.time).toLocaleString();
+    switch (record.action) {
+      case "restart":
+        pendingNotice = `雨仔已于 ${time} 重启完成`;
+        break;
+      case "update":
+        pendingNotice = `雨仔已于 ${time} 更新并重启完成${record.detail ? `\n${record.detail}` : ""}`;
+        break;
+      case "stop":
+        pendingNotice = `雨仔已于 ${time} 关机，现已重新启动`;
+        break;
+    }
+  }
+
+  // 定时开机由守护进程处理
+  const { updateCron, restartCron, stopCron, updateTime, restartTime } = config.system.schedule;
+
+  if (updateCron) scheduler.add("system", "定时更新", updateCron, () => update());
+  if (restartCron) scheduler.add("system", "定时重启", restartCron, () => restart());
+  if (stopCron) scheduler.add("system", "定时关机", stopCron, () => stop());
+
+  // 按照运行时长自动更新和重启，单位分钟，0 则不处理
+  if (updateTime > 0) {
+    logger.mark(`已启用自动更新，每 ${updateTime} 分钟拉取代码并在有更新时重启`);
+    const autoUpdate = () => {
+      setLongTimeout(
+        async () => {
+          await update("自动更新");
+          autoUpdate();
+        },
+        updateTime * 60 * 1000,
+      );
+    };
+    autoUpdate();
+  }
+  if (restartTime > 0) {
+    setLongTimeout(() => restart("自动重启"), restartTime * 60 * 1000);
+  }
+}
+
+export type { SystemAction };
+export { restartExitCode, restart, stop, update, onBotConnect, startSystemSchedules };
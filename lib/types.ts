@@ -60,6 +60,16 @@ export class PlatformInfo {
       },
     });
   }
+
+  /**
+   * 获取平台信息的 JSON 形式，即构造时传入的平台信息
+   *
+   * 使用静态方法而不是实例方法，避免影响平台信息的类型检查
+   * @param platformInfo 平台信息
+   */
+  static toJSON(platformInfo: PlatformInfo) {
+    return platformInfo._platformInfo;
+  }
 }
 
 /** 信息发送者 */
@@ -120,7 +130,8 @@ export interface InfoUserGroup extends TypeWithPlatform {
   // readonly joinTime?: number;
   // readonly lastSentTime?: number;
   // readonly level?: string;
-  // readonly role?: "owner" | "admin" | "member";
+  /** 群身份，分别为群主、管理员和普通成员 */
+  readonly role?: "owner" | "admin" | "member";
   // readonly unfriendly?: boolean;
   // readonly title?: string;
   // readonly titleExpireTime?: number;
@@ -42,6 +42,9 @@ export async function wait<T>(
   return new Promise((resolve) => setTimeout(() => resolve(waitTimeout), timeMs));
 }
 
+/** setTimeout 支持的最长等待时间（毫秒），约 24.8 天，超过后会立即触发 */
+export const maxTimeoutMs = 2 ** 31 - 1;
+
 /**
  * 等待一段时间
  *
@@ -0,0 +1,156 @@
+import type { MessageEvent } from "yuzai/event";
+import Plugin from "yuzai/plugin";
+import scheduler, { type ScheduleTaskInfo } from "yuzai/scheduler";
+import * as utils from "yuzai/utils";
+
+const helpMessage = `定时任务插件
+查看和管理定时任务，只有主人可以使用
+命令：
+#定时任务 列表
+#定时任务 详情 <任务名称或ID>
+#定时任务 暂停 <任务名称或ID>
+#定时任务 恢复 <任务名称或ID>
+#定时任务 执行 <任务名称或ID>
+`;
+
+/**
+ * 格式化时间戳
+ * @param timestamp 时间戳，单位毫秒
+ */
+function formatTime(timestamp?: number) {
+  return timestamp ? new Date(timestamp).toLocaleString() : "无";
+}
+
+/**
+ * 格式化任务的状态
+ * @param task 任务状态信息
+ */
+function formatStatus(task: ScheduleTaskInfo) {
+  if (task.running) return "执行中";
+  if (task.paused) return "已暂停";
+  return "等待中";
+}
+
+/**
+ * 按照名称或 ID 查找唯一的任务，找不到或找到多个时回复提示
+ * @param event 消息事件
+ * @param nameOrID 任务名称或 ID
+ */
+async function findTask(event: MessageEvent, nameOrID?: string) {
+  if (!nameOrID) {
+    await event.reply("请指定任务名称或ID");
+    return undefined;
+  }
+  const tasks = scheduler.find(nameOrID);
+  if (tasks.length === 0) {
+    await event.reply(`没有找到定时任务 ${nameOrID}`);
+    return undefined;
+  }
+  if (tasks.length > 1) {
+    await event.reply(
+      [`找到多个名为 ${nameOrID} 的定时任务，请使用ID：`, ...tasks.map((i) => i.id)].join("\n"),
+    );
+    return undefined;
+  }
+  return tasks[0];
+}
+
+const plugin = new Plugin({
+  id: "builtin.schedule",
+  name: "定时任务",
+  description: "查看和管理定时任务",
+})
+  .setHelpMessage(helpMessage)
+  .addTrigger({
+    name: "定时任务",
+    description: "查看和管理定时任务",
+    event: "message",
+    permission: "master",
+    command: {
+      name: "定时任务",
+      args: [
+        { name: "操作", description: "列表、详情、暂停、恢复或执行" },
+        { name: "任务", optional: true, rest: true, description: "任务名称或ID" },
+      ],
+    },
+    handler: async (event) => {
+      const action = event.args["操作"];
+      const nameOrID = event.args["任务"];
+
+      switch (action) {
+        case "列表": {
+          const tasks = scheduler.list();
+          if (tasks.length === 0) {
+            await event.reply("当前没有定时任务");
+            return;
+          }
+          const lines = tasks.map(
+            (task, index) =>
+              `${index + 1}. ${task.name}（${task.from}）${task.cron} ${formatStatus(task)}\n` +
+              `   下次执行：${formatTime(task.nextRunTime)}`,
+          );
+          await event.reply(["定时任务：", ...lines].join("\n"));
+          return;
+        }
+        case "详情": {
+          const task = await findTask(event, nameOrID);
+          if (!task) return;
+          const info = scheduler.list().find((i) => i.id === task.id);
+          if (!info) return;
+          await event.reply(
+            [
+              `${info.name}（${info.from}）`,
+              `ID：${info.id}`,
+              `cron：${info.cron}`,
+              `状态：${formatStatus(info)}`,
+              `下次执行：${formatTime(info.nextRunTime)}`,
+              `上次执行：${formatTime(info.lastRunTime)}`,
+              `上次耗时：${
+                info.lastDuration === undefined ? "无" : utils.getTimeDiff(0, info.lastDuration)
+              }`,
+              `上次错误：${info.lastError === undefined ? "无" : String(info.lastError)}`,
+            ].join("\n"),
+          );
+          return;
+        }
+        case "暂停": {
+          const task = await findTask(event, nameOrID);
+          if (!task) return;
+          await event.reply(
+            scheduler.pause(task) ? `已暂停定时任务 ${task.name}` : `定时任务 ${task.name} 已经暂停`,
+          );
+          return;
+        }
+        case "恢复": {
+          const task = await findTask(event, nameOrID);
+          if (!task) return;
+          await event.reply(
+            scheduler.resume(task)
+              ? `已恢复定时任务 ${task.name}`
+              : `定时任务 ${task.name} 没有暂停或恢复失败`,
+          );
+          return;
+        }
+        case "执行": {
+          const task = await findTask(event, nameOrID);
+          if (!task) return;
+          if (task.running) {
+            await event.reply(`定时任务 ${task.name} 正在执行`);
+            return;
+          }
+          await event.reply(`开始执行定时任务 ${task.name}`);
+          await scheduler.run(task);
+          await event.reply(
+            task.lastError === undefined
+              ? `定时任务 ${task.name} 执行完成`
+              : `定时任务 ${task.name} 执行失败：${String(task.lastError)}`,
+          );
+          return;
+        }
+        default:
+          await event.reply(helpMessage.trim());
+      }
+    },
+  });
+
+export default plugin;
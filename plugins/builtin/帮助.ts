@@ -0,0 +1,113 @@
+import type { MessageEvent } from "yuzai/event";
+import Plugin, { type TriggerPermission } from "yuzai/plugin";
+
+const helpMessage = `帮助插件
+查看可用的插件和指令
+命令：
+#帮助 [页码] 查看插件列表
+#帮助 <插件名> [页码] 查看插件的帮助和指令
+`;
+
+/** 权限的显示名称，所有人都可以使用的触发器不显示权限 */
+const permissionNames: Record<TriggerPermission, string> = {
+  master: "主人",
+  owner: "群主",
+  admin: "管理员",
+  all: "",
+};
+
+/** 每页显示的行数 */
+const pageSize = 10;
+
+/**
+ * 把内容分页
+ * @param title 标题
+ * @param lines 内容
+ * @param page 页码，从 1 开始，超出范围时取最后一页
+ * @param command 翻页使用的指令
+ */
+function paginate(title: string, lines: string[], page: number, command: string) {
+  const totalPages = Math.max(1, Math.ceil(lines.length / pageSize));
+  const currentPage = Math.min(Math.max(1, Math.floor(page)), totalPages);
+  const content = lines.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+  const result = [title, ...content];
+  if (totalPages > 1) {
+    result.push(`第 ${currentPage}/${totalPages} 页，发送 ${command} <页码> 翻页`);
+  }
+  return result.join("\n");
+}
+
+/**
+ * 获取当前 Bot 和群中可用的插件
+ * @param event 消息事件
+ */
+function getAvailablePlugins(event: MessageEvent) {
+  return event.bot.pluginList.filter((plugin) => plugin.isEnabled(event.bot, event.groupID));
+}
+
+/**
+ * 获取插件中用户可以看到的消息触发器，没有权限的触发器不显示
+ * @param plugin 插件
+ * @param event 消息事件
+ */
+async function getVisibleTriggers(plugin: Plugin, event: MessageEvent) {
+  const triggers = [];
+  for (const trigger of plugin.messageTriggers) {
+    if (!plugin.isEnabled(event.bot, event.groupID, trigger)) continue;
+    if (await trigger.hasPermission(event)) triggers.push(trigger);
+  }
+  return triggers;
+}
+
+const plugin = new Plugin({
+  id: "builtin.help",
+  name: "帮助",
+  description: "查看可用的插件和指令",
+})
+  .setHelpMessage(helpMessage)
+  .addTrigger({
+    name: "帮助",
+    description: "查看可用的插件和指令",
+    event: "message",
+    command: {
+      name: "帮助",
+      args: [
+        { name: "插件名", optional: true, description: "插件名称或 ID，不指定时列出所有插件" },
+        { name: "页码", type: "number", optional: true },
+      ],
+    },
+    handler: async (event) => {
+      const name = event.args["插件名"];
+      let page = event.args["页码"] ?? 1;
+
+      const plugins = getAvailablePlugins(event);
+      const target = name
+        ? plugins.find((plugin) => plugin.name === name || plugin.id === name)
+        : undefined;
+
+      if (!target) {
+        // 只指定了页码
+        if (name && /^\d+$/.test(name) && event.args["页码"] === undefined) page = Number(name);
+        else if (name) {
+          await event.reply(`没有找到插件 ${name}，发送 #帮助 查看可用的插件`);
+          return;
+        }
+        const lines = plugins.map((plugin) => `${plugin.name}：${plugin.description}`);
+        await event.reply(paginate("可用插件：", lines, page, "#帮助"));
+        return;
+      }
+
+      const lines = [...(target.help || target.description).trim().split("\n")];
+      const triggers = await getVisibleTriggers(target, event);
+      if (triggers.length) {
+        lines.push("指令：");
+        for (const trigger of triggers) {
+          const permission = permissionNames[trigger.permission];
+          lines.push(`  ${trigger.name}${permission ? `（${permission}）` : ""}：${trigger.description}`);
+        }
+      }
+      await event.reply(paginate(`插件 ${target.name}`, lines, page, `#帮助 ${target.name}`));
+    },
+  });
+
+export default plugin;
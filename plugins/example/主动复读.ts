@@ -19,12 +19,11 @@ const repeatPlugin = new Plugin({
     regex: /^#复读$/,
 
     handler: async (event) => {
-      repeatPlugin.startInteract(event, async (event) => {
-        // 结束上下文
-        repeatPlugin.finishInteract(event);
-        // 复读内容
-        event.reply(event.message, false, 5);
-      });
+      // 等待用户发送要复读的内容
+      const answer = await event.prompt("请发送要复读的内容", { timeout: 60 });
+      if (!answer) return;
+      // 复读内容
+      answer.reply(answer.message, false, 5);
     },
   });
 
@@ -1,4 +1,3 @@
-import { MessageBuilder } from "yuzai/message";
 import Plugin from "yuzai/plugin";
 import { importExtension } from "yuzai/extensions";
 
@@ -40,18 +39,8 @@ const plugin = new Plugin({
       // 记录时间
       await leveldb.put(key, Date.now());
 
-      await event.bot.sendMessage(
-        // TODO 进一步简化消息构建
-        // TODO 实现 Notice event 的 reply
-        new MessageBuilder()
-          .addAtBlock(event.data.userID)
-          // 添加一个空格，保持跟 QQ 的默认行为一致
-          .addTextBlock(" " + welcomeMessage)
-          .build(),
-        {
-          groupID: event.data.groupID,
-        },
-      );
+      // 添加一个空格，保持跟 QQ 的默认行为一致
+      await event.reply(" " + welcomeMessage, true);
     },
   })
   .addTrigger({
@@ -64,9 +53,7 @@ const plugin = new Plugin({
       const name = event.platform?.member_card ?? event.platform?.member_nickname ?? "";
       const message = (name ? `${name}(${event.data.userID})` : event.data.userID) + quitMessage;
 
-      await event.bot.sendMessage(message, {
-        groupID: event.data.groupID,
-      });
+      await event.reply(message);
     },
   });
 
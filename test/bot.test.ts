@@ -0,0 +1,223 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createTestBot } from "./helpers.ts";
+import Bot from "yuzai/bot";
+import config from "yuzai/config";
+import Plugin from "yuzai/plugin";
+import Message, { AtBlock, ForwardBlock, ForwardNode, TextBlock } from "yuzai/message";
+
+/**
+ * 创建一条合并转发消息的消息列表
+ * @param texts 每条消息的文本
+ */
+function createNodes(...texts: string[]) {
+  return texts.map((text) => new ForwardNode(new Message({ messageBlocks: new TextBlock(text) })));
+}
+
+test("合并转发块和其他内容按顺序分别发送", async () => {
+  const { bot, adapter } = await createTestBot();
+  const message = new Message({
+    messageBlocks: [
+      new TextBlock("前"),
+      new ForwardBlock(createNodes("a", "b")),
+      new ForwardBlock("失效", async () => undefined),
+    ],
+  });
+  await bot.sendMessage(message, { groupID: "30000" });
+  assert.deepEqual(
+    adapter.sent.map(({ message }) => message.toString()),
+    ["前", "a\n\nb", "[合并转发消息]"],
+  );
+});
+
+test("嵌套的合并转发按照文本展开", async () => {
+  const { bot, adapter } = await createTestBot();
+  const nodes = [
+    ...createNodes("a"),
+    new ForwardNode(new Message({ messageBlocks: new ForwardBlock(createNodes("b", "c")) })),
+  ];
+  await bot.sendForwardMessage(nodes, { groupID: "30000" });
+  assert.deepEqual(
+    adapter.sent.map(({ message }) => message.toString()),
+    ["a\n\nb\n\nc"],
+  );
+});
+
+test("适配器发送合并转发失败时改为逐条发送", async () => {
+  const { bot, adapter } = await createTestBot();
+  adapter.sendForwardMessage = async () => undefined;
+  await bot.sendForwardMessage(createNodes("a", "b"), { userID: "20000" }, "sequential");
+  assert.deepEqual(
+    adapter.sent.map(({ message }) => message.toString()),
+    ["a", "b"],
+  );
+});
+
+test("只转换以 / 开头的文本块开头的消息", async (t) => {
+  const systemConfig = config.system as { slashToHash: boolean };
+  const slashToHash = systemConfig.slashToHash;
+  systemConfig.slashToHash = true;
+  t.after(() => (systemConfig.slashToHash = slashToHash));
+
+  const received: string[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addTrigger({
+    name: "记录",
+    description: "记录",
+    event: "message",
+    regex: /帮助$/,
+    handler: async (event) => void received.push(event.normalizedMessage.toString()),
+  });
+  const { bot } = await createTestBot(new Map([[plugin.id, plugin]]));
+  const send = (...messageBlocks: (TextBlock | AtBlock)[]) =>
+    bot.onMessage(
+      new Message({
+        senderID: "20000",
+        target: { type: "person", userID: "10000" },
+        messageType: "private",
+        messageBlocks,
+      }),
+    );
+  await send(new TextBlock("/帮助"));
+  await send(new AtBlock("20000"), new TextBlock("/帮助"));
+  assert.deepEqual(received, ["#帮助", new AtBlock("20000").toString() + "/帮助"]);
+});
+
+test("分发计划在失效前保持缓存", async () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  const { bot } = await createTestBot(new Map([[plugin.id, plugin]]));
+  const plan = bot.dispatchPlan;
+  assert.equal(bot.dispatchPlan, plan);
+  assert.equal(plan.message.length, 0);
+
+  plugin.addTrigger({ name: "测试", description: "测试", handler: async () => {} });
+  bot.invalidateDispatchPlan();
+  assert.notEqual(bot.dispatchPlan, plan);
+  assert.equal(bot.dispatchPlan.message.length, 1);
+});
+
+test("插件添加触发器或修改优先级时触发 change 事件", () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  let changes = 0;
+  plugin.on("change", () => changes++);
+  plugin.addTrigger({ name: "测试", description: "测试", handler: async () => {} });
+  plugin.addTrigger({
+    name: "事件",
+    description: "事件",
+    event: "notice.friend.request",
+    handler: async () => {},
+  });
+  assert.equal(changes, 2);
+  plugin.priority = 10;
+  plugin.priority = 10;
+  assert.equal(changes, 3);
+});
+
+/**
+ * 创建使用指定群组配置的 Bot
+ * @param groupConfig 覆盖的群组配置
+ * @param plugins 机器人使用的插件
+ */
+async function createGroupBot(
+  groupConfig: Partial<ReturnType<Bot["getGroupConfig"]>>,
+  ...plugins: Plugin[]
+) {
+  const { bot, adapter } = await createTestBot(new Map(plugins.map((p) => [p.id, p])));
+  bot.getGroupConfig = (groupID) => ({
+    ...Bot.prototype.getGroupConfig.call(bot, groupID),
+    groupCD: 0,
+    singleCD: 0,
+    ...groupConfig,
+  });
+  const send = (...messageBlocks: (TextBlock | AtBlock)[]) =>
+    bot.onMessage(
+      new Message({
+        senderID: "20000",
+        target: { type: "group", groupID: "30000" },
+        messageType: "group",
+        messageBlocks,
+      }),
+    );
+  return { bot, adapter, send };
+}
+
+/**
+ * 创建记录收到的标准化消息的插件
+ * @param id 插件 ID
+ * @param names 触发器名称
+ */
+function createRecordPlugin(id: string, ...names: string[]) {
+  const received: string[] = [];
+  const plugin = new Plugin({ id, name: id, description: id });
+  for (const name of names) {
+    plugin.addTrigger({
+      name,
+      description: name,
+      event: "message",
+      regex: /帮助$/,
+      abort: false,
+      handler: async (event) => void received.push(`${name}:${event.normalizedMessage}`),
+    });
+  }
+  return { plugin, received };
+}
+
+test("只回复提及机器人的群消息，并去除 @ 和别名", async () => {
+  const { plugin, received } = createRecordPlugin("test", "记录");
+  const { send } = await createGroupBot({ onlyReplyAt: true, botAlias: ["小雨"] }, plugin);
+  await send(new TextBlock("帮助"));
+  await send(new AtBlock("10000"), new TextBlock(" 帮助"));
+  await send(new TextBlock("小雨 帮助"));
+  assert.deepEqual(received, ["记录:帮助", "记录:帮助"]);
+});
+
+test("onlyReplyAt 为 notMaster 时主人不需要提及机器人", async () => {
+  const { plugin, received } = createRecordPlugin("test", "记录");
+  const { bot, send } = await createGroupBot({ onlyReplyAt: "notMaster", botAlias: [] }, plugin);
+  await send(new TextBlock("帮助"));
+  bot._masters.push("20000");
+  await send(new TextBlock("帮助"));
+  assert.deepEqual(received, ["记录:帮助"]);
+});
+
+test("群组配置中禁用的插件和触发器不会处理消息", async () => {
+  const a = createRecordPlugin("插件A", "触发器A1", "触发器A2");
+  const b = createRecordPlugin("插件B", "触发器B");
+  const { send } = await createGroupBot(
+    { disable: ["触发器A1", "插件B"], enable: [] },
+    a.plugin,
+    b.plugin,
+  );
+  await send(new TextBlock("帮助"));
+  assert.deepEqual(a.received, ["触发器A2:帮助"]);
+  assert.deepEqual(b.received, []);
+});
+
+test("群组配置中启用列表不为空时只处理列出的插件和触发器", async () => {
+  const a = createRecordPlugin("插件A", "触发器A1", "触发器A2");
+  const b = createRecordPlugin("插件B", "触发器B");
+  const { send } = await createGroupBot({ disable: [], enable: ["触发器A2"] }, a.plugin, b.plugin);
+  await send(new TextBlock("帮助"));
+  assert.deepEqual(a.received, ["触发器A2:帮助"]);
+  assert.deepEqual(b.received, []);
+});
+
+test("群组配置中禁用的事件触发器不会处理事件", async () => {
+  const received: string[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  for (const name of ["欢迎新人", "记录入群"]) {
+    plugin.addTrigger({
+      name,
+      description: name,
+      event: "notice.group.member_join",
+      handler: async () => void received.push(name),
+    });
+  }
+  const { bot } = await createGroupBot({ disable: ["欢迎新人"], enable: [] }, plugin);
+  await bot.onNotice("notice.group.member_join", {
+    timestamp: 0,
+    groupID: "30000",
+    userID: "20001",
+  });
+  assert.deepEqual(received, ["记录入群"]);
+});
@@ -0,0 +1,52 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import "yuzai/client";
+import Command from "yuzai/command";
+import Message, { ImageBlock, MessageBuilder, TextBlock } from "yuzai/message";
+
+const command = new Command({
+  name: "测试",
+  args: [{ name: "名称" }, { name: "内容", optional: true, rest: true }],
+  flags: [
+    { name: "force", alias: "f" },
+    { name: "count", type: "number" },
+  ],
+});
+
+/**
+ * 解析文本消息
+ * @param text 消息文本
+ */
+function parse(text: string) {
+  return command.parse(new MessageBuilder().addTextBlock(text).build());
+}
+
+test("解析参数和选项", () => {
+  assert.deepEqual(parse("#测试 a b c --count 2 -f"), {
+    args: { 名称: "a", 内容: "b c" },
+    flags: { count: 2, force: true },
+  });
+});
+
+test("引号括起来的参数不是选项", () => {
+  assert.deepEqual(parse('#测试 "--force" "-f"'), {
+    args: { 名称: "--force", 内容: "-f" },
+    flags: {},
+  });
+});
+
+test("单独的 -- 之后都是位置参数", () => {
+  assert.deepEqual(parse("#测试 -f -- --count -x"), {
+    args: { 名称: "--count", 内容: "-x" },
+    flags: { force: true },
+  });
+  assert.deepEqual(parse("#测试 --unknown"), { error: "未知选项 --unknown" });
+});
+
+test("剩余参数中的图片不会被丢弃", () => {
+  const message = new Message({
+    messageBlocks: [new TextBlock("#测试 a b "), ImageBlock.fromBuffer(Buffer.from("image"))],
+  });
+  assert.deepEqual(command.parse(message), { error: "参数 内容 应为文本" });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { escapeCQ, parseCQCode, toCQCode, unescapeCQ } from "../adapters/builtin/onebot/cqcode.ts";
+
+test("转义和反转义 CQ 码特殊字符", () => {
+  const text = "a&b[c]d,e&#91;";
+  assert.equal(escapeCQ(text), "a&amp;b&#91;c&#93;d,e&amp;#91;");
+  assert.equal(escapeCQ(text, true), "a&amp;b&#91;c&#93;d&#44;e&amp;#91;");
+  assert.equal(unescapeCQ(escapeCQ(text)), text);
+  assert.equal(unescapeCQ(escapeCQ(text, true)), text);
+});
+
+test("解析 CQ 码后可以还原", () => {
+  const message =
+    "你好&#91;[CQ:at,qq=123][CQ:face,id=14]图片[CQ:image,file=a.png,url=https://a.com/?a=1&#44;2]";
+  const segments = parseCQCode(message);
+  assert.deepEqual(segments, [
+    { type: "text", data: { text: "你好[" } },
+    { type: "at", data: { qq: "123" } },
+    { type: "face", data: { id: "14" } },
+    { type: "text", data: { text: "图片" } },
+    { type: "image", data: { file: "a.png", url: "https://a.com/?a=1,2" } },
+  ]);
+  assert.equal(toCQCode(segments), message);
+});
+
+test("缺少必要参数的 CQ 码作为文本保留", () => {
+  assert.deepEqual(parseCQCode("a[CQ:face]b[CQ:poke,type=1][CQ:shake]"), [
+    { type: "text", data: { text: "a[CQ:face]b[CQ:poke,type=1]" } },
+    { type: "shake", data: {} },
+  ]);
+  assert.deepEqual(parseCQCode("[CQ:music,type=custom,url=https://a.com]"), [
+    { type: "text", data: { text: "[CQ:music,type=custom,url=https://a.com]" } },
+  ]);
+});
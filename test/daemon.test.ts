@@ -0,0 +1,84 @@
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { afterEach, test } from "node:test";
+
+import config from "yuzai/config";
+import * as daemon from "yuzai/daemon";
+
+const pidFile = path.resolve(config.rootDir, "data", "yuzai.pid");
+
+/**
+ * 写入 pid 文件
+ * @param pid 进程 ID
+ */
+async function writePid(pid: number) {
+  await fs.mkdir(path.dirname(pidFile), { recursive: true });
+  await fs.writeFile(pidFile, String(pid));
+}
+
+/** pid 文件是否存在 */
+async function pidFileExists() {
+  return fs.access(pidFile).then(
+    () => true,
+    () => false,
+  );
+}
+
+afterEach(() => fs.rm(pidFile, { force: true }));
+
+test("停止时向 pid 文件中的进程发送 SIGTERM 并等待退出", async () => {
+  const child = spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], {
+    stdio: "ignore",
+  });
+  await once(child, "spawn");
+  assert.ok(child.pid);
+  await writePid(child.pid);
+
+  assert.equal(await daemon.stop(), true);
+  assert.equal(child.signalCode, "SIGTERM");
+});
+
+test("已经在运行时不会再次启动", async () => {
+  const child = spawn(process.execPath, ["-e", "setInterval(() => {}, 1000)"], {
+    stdio: "ignore",
+  });
+  await once(child, "spawn");
+  assert.ok(child.pid);
+  await writePid(child.pid);
+
+  try {
+    assert.equal(await daemon.start(), false);
+  } finally {
+    child.kill();
+  }
+});
+
+test("没有 pid 文件时停止失败", async () => {
+  assert.equal(await daemon.stop(), false);
+});
+
+test("进程在停止前退出时删除过期的 pid 文件", async (t) => {
+  await writePid(99999);
+  // 读取 pid 时进程存在，发送 SIGTERM 时进程已经退出
+  t.mock.method(process, "kill", (pid: number, signal?: string | number) => {
+    if (signal === 0) return true;
+    throw Object.assign(new Error(`kill ESRCH ${pid}`), { code: "ESRCH" });
+  });
+
+  assert.equal(await daemon.stop(), true);
+  assert.equal(await pidFileExists(), false);
+});
+
+test("没有权限停止进程时报告失败并删除 pid 文件", async (t) => {
+  await writePid(99999);
+  t.mock.method(process, "kill", (pid: number, signal?: string | number) => {
+    if (signal === 0) return true;
+    throw Object.assign(new Error(`kill EPERM ${pid}`), { code: "EPERM" });
+  });
+
+  assert.equal(await daemon.stop(), false);
+  assert.equal(await pidFileExists(), false);
+});
@@ -0,0 +1,174 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createTestBot } from "./helpers.ts";
+import Bot from "yuzai/bot";
+import config from "yuzai/config";
+import { NoticeEvent, ScheduleContext } from "yuzai/event";
+import Plugin from "yuzai/plugin";
+
+const botConfig = config.bot as { autoFriend: boolean };
+
+test("加好友请求事件使用适配器传入的请求标识", async (t) => {
+  const autoFriend = botConfig.autoFriend;
+  botConfig.autoFriend = true;
+  t.after(() => (botConfig.autoFriend = autoFriend));
+
+  const { bot, adapter } = await createTestBot();
+  // 适配器传入的是普通对象，与 OneBotv11 的 onRequest 一致
+  await bot.onNotice(
+    "notice.friend.request",
+    { timestamp: 0, requesterID: "20000", message: "你好" },
+    { qq: { flag: "friend-flag" } },
+  );
+  assert.deepEqual(adapter.requests, [{ flag: "friend-flag", approve: true }]);
+
+  const event = new NoticeEvent(
+    bot,
+    "notice.friend.request",
+    { timestamp: 0, requesterID: "20000", message: "你好" },
+    { qq: { flag: "friend-flag" } },
+  );
+  assert.equal(await event.reject(), true);
+  assert.deepEqual(adapter.requests.at(-1), { flag: "friend-flag", approve: false });
+});
+
+test("加群请求事件可以拒绝并附带理由", async () => {
+  const { bot, adapter } = await createTestBot();
+  const event = new NoticeEvent(
+    bot,
+    "notice.group.request",
+    { timestamp: 0, requesterID: "20000", message: "", groupID: "30000" },
+    { qq: { flag: "group-flag", subType: "invite" } },
+  );
+  assert.equal(await event.reject("不认识"), true);
+  assert.deepEqual(adapter.requests, [
+    { flag: "group-flag", subType: "invite", approve: false, reason: "不认识" },
+  ]);
+});
+
+test("自动同意加好友请求失败时仍然分发给插件", async (t) => {
+  const autoFriend = botConfig.autoFriend;
+  botConfig.autoFriend = true;
+  t.after(() => (botConfig.autoFriend = autoFriend));
+
+  const received: string[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addTrigger({
+    name: "加好友",
+    description: "加好友",
+    event: "notice.friend.request",
+    handler: async (event) => void received.push(event.userID ?? ""),
+  });
+  const { bot, adapter } = await createTestBot(new Map([[plugin.id, plugin]]));
+  adapter.handleFriendRequest = async () => {
+    throw new Error("Request timed out");
+  };
+  await bot.onNotice(
+    "notice.friend.request",
+    { timestamp: 0, requesterID: "20000", message: "你好" },
+    { qq: { flag: "friend-flag" } },
+  );
+  assert.deepEqual(received, ["20000"]);
+});
+
+test("计划任务按照 Bot 的目标群和群组配置发送消息", async () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addTrigger({
+    name: "早安",
+    description: "早安",
+    cron: "0 8 * * *",
+    targets: { "10000": ["30000", "30001", "30002"], all: ["39999"] },
+    config: { text: "早安" },
+    handler: async () => {},
+  });
+  const [trigger] = plugin.schedules;
+  const { bot, adapter } = await createTestBot();
+  bot.getGroupConfig = (groupID) => ({
+    ...Bot.prototype.getGroupConfig.call(bot, groupID),
+    enable: [],
+    disable: groupID === "30001" ? ["早安"] : [],
+  });
+  adapter.sendGroupMessage = async (message, groupID) => {
+    if (groupID === "30002") throw new Error("发送失败");
+    adapter.sent.push({ message, target: { type: "group", groupID } });
+    return "1";
+  };
+
+  const context = new ScheduleContext(plugin, trigger, [bot]);
+  assert.deepEqual(context.getTargetGroups(bot), ["30000", "30002"]);
+  assert.deepEqual(context.config, { text: "早安" });
+  await context.sendToGroups(String(context.config.text));
+  assert.deepEqual(
+    adapter.sent.map(({ message, target }) => [message.toString(), target]),
+    [["早安", { type: "group", groupID: "30000" }]],
+  );
+});
+
+test("新增的通知事件按照数据中的群、子频道和用户确定上下文", async () => {
+  const received: unknown[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addTrigger({
+    name: "通知",
+    description: "通知",
+    events: [
+      "notice.friend.poke",
+      "notice.group.poke",
+      "notice.group.member_mute",
+      "notice.guild.channel_create",
+    ],
+    handler: async (event) =>
+      void received.push([event.type, event.groupID, event.userID, event.target]),
+  });
+  const { bot } = await createTestBot(new Map([[plugin.id, plugin]]));
+  bot.getGroupConfig = (groupID) => ({
+    ...Bot.prototype.getGroupConfig.call(bot, groupID),
+    enable: [],
+    disable: groupID === "30001" ? ["通知"] : [],
+  });
+
+  await bot.onNotice("notice.friend.poke", { timestamp: 0, userID: "20000", targetID: "10000" });
+  await bot.onNotice("notice.group.poke", {
+    timestamp: 0,
+    groupID: "30000",
+    userID: "20000",
+    targetID: "10000",
+  });
+  // 全员禁言没有被禁言的用户
+  await bot.onNotice("notice.group.member_mute", {
+    timestamp: 0,
+    groupID: "30000",
+    operatorID: "20000",
+    duration: 0,
+  });
+  await bot.onNotice("notice.guild.channel_create", {
+    timestamp: 0,
+    guildID: "40000",
+    channelID: "50000",
+    operatorID: "20000",
+    channel: { channelID: "50000", channelName: "闲聊" },
+  });
+  // 在群中禁用的触发器不会收到这个群的通知
+  await bot.onNotice("notice.group.poke", {
+    timestamp: 0,
+    groupID: "30001",
+    userID: "20000",
+    targetID: "10000",
+  });
+  // 没有订阅的通知不会分发
+  await bot.onNotice("notice.group.admin", {
+    timestamp: 0,
+    groupID: "30000",
+    userID: "20000",
+    set: true,
+  });
+
+  assert.deepEqual(received, [
+    ["notice.friend.poke", undefined, "20000", { type: "person", userID: "20000" }],
+    ["notice.group.poke", "30000", "20000", { type: "group", groupID: "30000" }],
+    ["notice.group.member_mute", "30000", undefined, { type: "group", groupID: "30000" }],
+    [
+      "notice.guild.channel_create",
+      undefined,
+      undefined,
+      { type: "guild", guildID: "40000", channelID: "50000" },
+    ],
+  ]);
+});
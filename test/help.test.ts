@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import help from "../plugins/builtin/帮助.ts";
+import { createTestBot } from "./helpers.ts";
+import Bot from "yuzai/bot";
+import Message, { TextBlock } from "yuzai/message";
+import Plugin from "yuzai/plugin";
+
+/**
+ * 创建有一个普通指令和一个主人指令的插件
+ * @param id 插件 ID
+ */
+function createPlugin(id: string) {
+  return new Plugin({ id, name: id, description: `${id}的描述` })
+    .addTrigger({
+      name: "查询",
+      description: "查询内容",
+      event: "message",
+      regex: /^#查询$/,
+      handler: async () => {},
+    })
+    .addTrigger({
+      name: "设置",
+      description: "设置内容",
+      event: "message",
+      regex: /^#设置$/,
+      permission: "master",
+      handler: async () => {},
+    });
+}
+
+/**
+ * 创建使用帮助插件的 Bot，返回发送消息并获取回复的函数
+ * @param plugins 其他插件
+ */
+async function createHelpBot(...plugins: Plugin[]) {
+  const { bot, adapter } = await createTestBot(
+    new Map([help, ...plugins].map((plugin) => [plugin.id, plugin])),
+  );
+  bot.getGroupConfig = (groupID) => ({
+    ...Bot.prototype.getGroupConfig.call(bot, groupID),
+    onlyReplyAt: false,
+    groupCD: 0,
+    singleCD: 0,
+    enable: [],
+    disable: groupID === "30000" ? ["插件B"] : [],
+  });
+  const ask = async (text: string, groupID?: string) => {
+    const count = adapter.sent.length;
+    await bot.onMessage(
+      new Message({
+        senderID: "20000",
+        target: groupID ? { type: "group", groupID } : { type: "person", userID: "10000" },
+        messageType: groupID ? "group" : "private",
+        messageBlocks: [new TextBlock(text)],
+      }),
+    );
+    return adapter.sent.slice(count).map(({ message }) => message.toString());
+  };
+  return { bot, ask };
+}
+
+test("#帮助 列出当前群中可用的插件", async () => {
+  const { ask } = await createHelpBot(createPlugin("插件A"), createPlugin("插件B"));
+  const [all] = await ask("#帮助");
+  assert.match(all, /插件A：插件A的描述/);
+  assert.match(all, /插件B：插件B的描述/);
+
+  const [group] = await ask("#帮助", "30000");
+  assert.match(group, /插件A/);
+  assert.doesNotMatch(group, /插件B/);
+});
+
+test("#帮助 <插件名> 显示插件的指令，只有主人能看到主人指令", async () => {
+  const { bot, ask } = await createHelpBot(createPlugin("插件A"));
+  const [user] = await ask("#帮助 插件A");
+  assert.match(user, /查询：查询内容/);
+  assert.doesNotMatch(user, /设置/);
+
+  bot._masters.push("20000");
+  const [master] = await ask("#帮助 插件A");
+  assert.match(master, /设置（主人）：设置内容/);
+});
+
+test("插件较多时分页显示", async () => {
+  const plugins = Array.from({ length: 12 }, (_, i) => createPlugin(`插件${i}`));
+  const { ask } = await createHelpBot(...plugins);
+  const [first] = await ask("#帮助");
+  assert.match(first, /第 1\/2 页/);
+  const [second] = await ask("#帮助 2");
+  assert.match(second, /第 2\/2 页/);
+  assert.match(second, /插件11/);
+});
+
+test("没有找到插件时提示", async () => {
+  const { ask } = await createHelpBot();
+  assert.deepEqual(await ask("#帮助 不存在"), ["没有找到插件 不存在，发送 #帮助 查看可用的插件"]);
+});
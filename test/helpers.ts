@@ -0,0 +1,84 @@
+/**
+ * @description 测试用的工具，提供不连接任何平台的适配器和机器人
+ */
+import { randomUUID } from "node:crypto";
+
+import Adapter from "yuzai/adapter";
+import Bot from "yuzai/bot";
+import type Message from "yuzai/message";
+import type { InfoUserPersonal, PlatformInfo, Target } from "yuzai/types";
+import type Plugin from "yuzai/plugin";
+
+/** 测试用的适配器，记录发送的消息和处理的请求 */
+export class TestAdapter extends Adapter {
+  readonly id = "test";
+  readonly name = "Test";
+
+  /** 发送的消息 */
+  readonly sent: { message: Message; target: Target }[] = [];
+  /** 处理的请求 */
+  readonly requests: { flag: unknown; subType?: unknown; approve: boolean; reason?: string }[] = [];
+  /** 查询过的群成员 */
+  readonly memberLookups: { groupID: string; userID: string }[] = [];
+
+  async getID() {
+    return "10000";
+  }
+  async getNickname() {
+    return "测试";
+  }
+  async getFriendList() {
+    return new Map<string, InfoUserPersonal>();
+  }
+  async getFriendInfo() {
+    return undefined;
+  }
+  async getMessage() {
+    return undefined;
+  }
+  async getPrivateMessageHistory() {
+    return undefined;
+  }
+  async sendPrivateMessage(message: Message, userID: string) {
+    this.sent.push({ message, target: { type: "person", userID } });
+    return String(this.sent.length);
+  }
+  async sendGroupMessage(message: Message, groupID: string) {
+    this.sent.push({ message, target: { type: "group", groupID } });
+    return String(this.sent.length);
+  }
+  async recallMessage() {
+    return true;
+  }
+  async getGroupMemberInfo(groupID: string, userID: string) {
+    this.memberLookups.push({ groupID, userID });
+    return { type: "group" as const, userID, role: "member" as const };
+  }
+
+  // 与 OneBotv11 适配器一样，从平台信息中读取请求标识
+  async handleFriendRequest(platformInfo: PlatformInfo | undefined, approve: boolean) {
+    if (typeof platformInfo?.flag !== "string") return false;
+    this.requests.push({ flag: platformInfo.flag, approve });
+    return true;
+  }
+  async handleGroupRequest(
+    platformInfo: PlatformInfo | undefined,
+    approve: boolean,
+    reason?: string,
+  ) {
+    if (typeof platformInfo?.flag !== "string") return false;
+    this.requests.push({ flag: platformInfo.flag, subType: platformInfo.subType, approve, reason });
+    return true;
+  }
+}
+
+/**
+ * 创建使用测试适配器的机器人，并等待机器人 ID 初始化
+ * @param plugins 机器人使用的插件
+ */
+export async function createTestBot(plugins = new Map<string, Plugin>()) {
+  const adapter = new TestAdapter();
+  const bot = new Bot(randomUUID(), plugins, adapter);
+  await bot.updateID();
+  return { bot, adapter };
+}
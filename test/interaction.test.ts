@@ -0,0 +1,194 @@
+import assert from "node:assert/strict";
+import { beforeEach, test } from "node:test";
+
+import { createTestBot } from "./helpers.ts";
+import type Bot from "yuzai/bot";
+import { MessageEvent } from "yuzai/event";
+import {
+  MemoryInteractionStore,
+  setInteractionStore,
+  type StoredInteraction,
+} from "yuzai/interaction-store";
+import Message, { TextBlock } from "yuzai/message";
+import Plugin from "yuzai/plugin";
+import * as utils from "yuzai/utils";
+
+let store: MemoryInteractionStore;
+
+beforeEach(() => {
+  store = new MemoryInteractionStore();
+  setInteractionStore(store);
+});
+
+/**
+ * 创建群消息事件
+ * @param text 消息文本
+ */
+async function createGroupEvent(text = "") {
+  const { bot, adapter } = await createTestBot();
+  const message = new Message({
+    senderID: "20000",
+    target: { type: "group", groupID: "30000" },
+    messageType: "group",
+    messageBlocks: [new TextBlock(text)],
+  });
+  return { bot, adapter, event: new MessageEvent(bot, message) };
+}
+
+/**
+ * 创建带有一个步骤的插件，记录步骤收到的消息和状态
+ */
+function createStepPlugin() {
+  const received: { text: string; state: unknown }[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addStep(
+    "name",
+    async (event, state) => void received.push({ text: event.message.toString(), state }),
+  );
+  return { plugin, received };
+}
+
+/**
+ * 创建持久化的交互
+ * @param key 交互键
+ * @param deadline 超时时间戳
+ */
+function storedInteraction(key: StoredInteraction["key"], deadline?: number): StoredInteraction {
+  return {
+    pluginID: "test",
+    botID: "10000",
+    key,
+    step: "name",
+    state: { count: 1 },
+    deadline,
+    timeoutMessage: "操作超时已取消",
+    target: { type: "group", groupID: "30000" },
+  };
+}
+
+test("分步交互在插件重载后恢复并继续处理回复", async () => {
+  const { plugin, received } = createStepPlugin();
+  const { bot, event } = await createGroupEvent("#改名");
+  await plugin.startStep(event, "name", { count: 1 });
+  assert.equal((await store.list("test")).length, 1);
+
+  // 模拟插件重载，内存中的交互被清除
+  plugin.clearInteractions();
+  const reply = (await createGroupEvent("新名字")).event;
+  assert.equal(await plugin.handleInteraction(reply), false);
+
+  await plugin.restoreInteractions(bot);
+  assert.equal(await plugin.handleInteraction(reply), true);
+  await utils.wait(10);
+  assert.deepEqual(received, [{ text: "新名字", state: { count: 1 } }]);
+});
+
+test("恢复时已超时的交互发送超时消息后删除", async () => {
+  const { plugin } = createStepPlugin();
+  const { bot, adapter } = await createGroupEvent();
+  await store.set(storedInteraction("10000:group:20000:30000", Date.now() - 1000));
+
+  await plugin.restoreInteractions(bot);
+  assert.deepEqual(await store.list("test"), []);
+  assert.equal(adapter.sent.length, 1);
+  assert.equal(adapter.sent[0].message.toString(), "操作超时已取消");
+});
+
+test("单个交互的超时消息发送失败不影响恢复其他交互", async () => {
+  const { plugin } = createStepPlugin();
+  const { bot, adapter, event } = await createGroupEvent();
+  adapter.sendGroupMessage = async () => {
+    throw new Error("发送失败");
+  };
+  await store.set(storedInteraction("10000:group:20001:30000", Date.now() - 1000));
+  await store.set(storedInteraction("10000:group:20000:30000"));
+
+  await plugin.restoreInteractions(bot);
+  assert.ok(plugin.getInteract(event));
+});
+
+test("读取交互存储失败时之后会重试", async () => {
+  const { plugin } = createStepPlugin();
+  const { bot, event } = await createGroupEvent();
+  await store.set(storedInteraction("10000:group:20000:30000"));
+  const list = store.list.bind(store);
+  store.list = async () => {
+    throw new Error("读取失败");
+  };
+
+  await plugin.restoreInteractions(bot);
+  assert.equal(plugin.getInteract(event), undefined);
+
+  store.list = list;
+  await plugin.restoreInteractions(bot);
+  assert.ok(plugin.getInteract(event));
+});
+
+/**
+ * 创建群消息事件，用于测试不同发送者和群的交互范围
+ * @param bot 机器人
+ * @param senderID 发送者 ID
+ * @param groupID 群 ID
+ */
+function createMemberEvent(bot: Bot, senderID: string, groupID: string) {
+  return new MessageEvent(
+    bot,
+    new Message({
+      senderID,
+      target: { type: "group", groupID },
+      messageType: "group",
+      messageBlocks: [new TextBlock("回答")],
+    }),
+  );
+}
+
+test("群范围的交互由群中任何人回答，用户范围的交互跟随用户到其他群", async () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  const { bot } = await createTestBot();
+  const answers: string[] = [];
+  const record = (scope: string) => async (event: MessageEvent) =>
+    void answers.push(`${scope}:${event.message.senderID}:${event.groupID}`);
+  plugin.startInteract(
+    createMemberEvent(bot, "20000", "30000"),
+    record("group"),
+    undefined,
+    "",
+    undefined,
+    "group",
+  );
+  plugin.startInteract(
+    createMemberEvent(bot, "20001", "30000"),
+    record("user"),
+    undefined,
+    "",
+    undefined,
+    "user",
+  );
+
+  assert.equal(await plugin.handleInteraction(createMemberEvent(bot, "20002", "30000")), true);
+  assert.equal(await plugin.handleInteraction(createMemberEvent(bot, "20001", "30001")), true);
+  assert.equal(await plugin.handleInteraction(createMemberEvent(bot, "20002", "30001")), false);
+  assert.deepEqual(answers, ["group:20002:30000", "user:20001:30001"]);
+});
+
+test("同一条消息属于多个交互时范围小的交互优先", async () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  const { bot } = await createTestBot();
+  const answers: string[] = [];
+  const event = createMemberEvent(bot, "20000", "30000");
+  for (const scope of ["shared", "group", "user", "member"] as const) {
+    plugin.startInteract(
+      event,
+      async () => void answers.push(scope),
+      undefined,
+      "",
+      undefined,
+      scope,
+    );
+  }
+  await plugin.handleInteraction(createMemberEvent(bot, "20000", "30000"));
+  plugin.finishInteract(event, "member");
+  await plugin.handleInteraction(createMemberEvent(bot, "20000", "30000"));
+  plugin.finishInteract(event, "user");
+  await plugin.handleInteraction(createMemberEvent(bot, "20000", "30000"));
+  assert.deepEqual(answers, ["member", "user", "group"]);
+});
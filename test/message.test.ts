@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { test } from "node:test";
+
+import "yuzai/client";
+import Message, { FileBlock, ImageBlock, MessageBuilder } from "yuzai/message";
+
+const url = `data:application/octet-stream;base64,${Buffer.from("yuzai").toString("base64")}`;
+
+test("下载的数据校验不通过时不保存", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "yuzai-"));
+  try {
+    const image = new ImageBlock("image", "image.png", 100, url);
+    assert.equal(await image.download(dir), undefined);
+    const file = new FileBlock("file.txt", undefined, 100, undefined, url);
+    assert.equal(await file.download(dir), undefined);
+    assert.deepEqual(await fs.readdir(dir), []);
+
+    const unchecked = new ImageBlock("image", "image.png", 100, url);
+    assert.equal(
+      await unchecked.download(dir, undefined, false, true),
+      path.join(dir, "image.png"),
+    );
+  } finally {
+    await fs.rm(dir, { recursive: true });
+  }
+});
+
+test("下载时文件名中的目录会被去掉", async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "yuzai-"));
+  try {
+    const image = new ImageBlock("image", "../../image.png", undefined, url);
+    assert.equal(await image.download(dir), path.join(dir, "image.png"));
+    const file = new FileBlock("..\\file.txt", undefined, undefined, undefined, url);
+    assert.equal(await file.download(dir), path.join(dir, "file.txt"));
+    const unnamed = new ImageBlock("image", "..", undefined, url);
+    assert.equal(path.dirname((await unnamed.download(dir)) ?? ""), dir);
+    assert.equal((await fs.readdir(dir)).length, 3);
+  } finally {
+    await fs.rm(dir, { recursive: true });
+  }
+});
+
+test("文本标记和 JSON 不能引用 data 和 resources 目录之外的本地文件", () => {
+  const message = new MessageBuilder()
+    .addMarkup("[yz:image,id=/etc/passwd][yz:image,url=file:///etc/passwd][yz:image,id=../x.png]")
+    .build();
+  assert.deepEqual(
+    message.messageBlocks.map((block) => block.type),
+    ["text"],
+  );
+
+  const image = new MessageBuilder().addMarkup("[yz:image,id=./data/1.png]").build();
+  assert.equal(image.messageBlocks[0].type, "image");
+
+  const json = Message.fromJSON({
+    messageBlocks: [{ type: "file", data: { name: "passwd", url: "file:///etc/passwd" } }],
+  });
+  assert.equal(json.messageBlocks.length, 0);
+});
+
+test("rawMessage 是字符串形式而不是文本标记", () => {
+  const message = new MessageBuilder().addMarkup("你好[yz:at,id=123]").build();
+  assert.equal(message.rawMessage, message.toString());
+});
+
+/** 添加每种新增消息块的方法 */
+const addBlocks: ((builder: MessageBuilder) => MessageBuilder)[] = [
+  (builder) => builder.addRecordBlock("https://example.com/a.amr"),
+  (builder) => builder.addVideoBlock("https://example.com/a.mp4"),
+  (builder) => builder.addRpsBlock(),
+  (builder) => builder.addDiceBlock(),
+  (builder) => builder.addShakeBlock(),
+  (builder) => builder.addPokeBlock("1", "2"),
+  (builder) => builder.addShareBlock("https://example.com", "雨仔", { content: "简介" }),
+  (builder) => builder.addContactBlock("group", "30000"),
+  (builder) => builder.addLocationBlock(30.5, 114.3, { title: "武汉" }),
+  (builder) => builder.addMusicBlock("163", "12345"),
+  (builder) =>
+    builder.addCustomMusicBlock("https://example.com", "https://example.com/a.mp3", "歌"),
+  (builder) => builder.addXmlBlock("<xml/>"),
+  (builder) => builder.addJsonBlock({ app: "test" }),
+  (builder) => builder.addMarkdownBlock("**加粗**"),
+];
+
+/** 包含所有新增消息块的消息 */
+function createRichMessage() {
+  return new Message({
+    messageBlocks: addBlocks.flatMap((add) => add(new MessageBuilder()).build().messageBlocks),
+  });
+}
+
+test("新增的消息块转换为字符串", () => {
+  assert.deepEqual(
+    createRichMessage().messageBlocks.map((block) => block.toString()),
+    [
+      "<record: https://example.com/a.amr>",
+      "<video: https://example.com/a.mp4>",
+      "<rps>",
+      "<dice>",
+      "<shake>",
+      "<poke: 1-2>",
+      "<share: 雨仔, url: https://example.com>",
+      "<contact: group 30000>",
+      "<location: 武汉>",
+      "<music: 163 12345>",
+      "<music: 歌>",
+      "<xml: <xml/>>",
+      '<json: {"app":"test"}>',
+      "<markdown: **加粗**>",
+    ],
+  );
+});
+
+test("新增的消息块可以通过 JSON 和文本标记还原", () => {
+  const message = createRichMessage();
+  const json = message.toJSON();
+  assert.deepEqual(Message.fromJSON(JSON.stringify(json)).toJSON(), json);
+  assert.deepEqual(new MessageBuilder().addMarkup(message.toMarkup()).build().toJSON(), json);
+
+  const [, , , , , , share, , location, , music, , data] = Message.fromJSON(json).messageBlocks;
+  assert.equal(share.type === "share" && share.content, "简介");
+  assert.equal(location.type === "location" && location.longitude, 114.3);
+  assert.equal(music.type === "music" && music.audio, "https://example.com/a.mp3");
+  assert.deepEqual(data.type === "json" && data.json, { app: "test" });
+});
+
+test("JSON 中的语音和视频不能引用 data 和 resources 目录之外的本地文件", () => {
+  const message = Message.fromJSON({
+    messageBlocks: [
+      { type: "record", data: { id: "/etc/passwd" } },
+      { type: "video", data: { id: "../a.mp4" } },
+      { type: "record", data: { id: "./data/a.amr" } },
+    ],
+  });
+  assert.deepEqual(
+    message.messageBlocks.map((block) => block.toString()),
+    ["<record: ./data/a.amr>"],
+  );
+});
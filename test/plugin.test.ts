@@ -0,0 +1,165 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createTestBot } from "./helpers.ts";
+import Bot from "yuzai/bot";
+import { MessageEvent } from "yuzai/event";
+import Message, { MessageBuilder, TextBlock } from "yuzai/message";
+import Plugin, { checkPermission } from "yuzai/plugin";
+import { PlatformInfo } from "yuzai/types";
+
+/**
+ * 创建群消息事件
+ * @param platform 消息的平台信息
+ */
+async function createGroupEvent(platform?: PlatformInfo) {
+  const { bot, adapter } = await createTestBot();
+  const message = new Message({
+    senderID: "20000",
+    target: { type: "group", groupID: "30000" },
+    messageType: "group",
+    platform,
+  });
+  return { event: new MessageEvent(bot, message), adapter };
+}
+
+test("权限判断优先使用消息中附带的群身份", async () => {
+  const { event, adapter } = await createGroupEvent(
+    new PlatformInfo({ qq: { senderRole: "admin" } }),
+  );
+  assert.equal(await checkPermission(event, "admin"), true);
+  assert.equal(await checkPermission(event, "owner"), false);
+  assert.deepEqual(adapter.memberLookups, []);
+});
+
+test("消息中没有群身份时只查询发送者", async () => {
+  const { event, adapter } = await createGroupEvent();
+  assert.equal(await checkPermission(event, "admin"), false);
+  assert.deepEqual(adapter.memberLookups, [{ groupID: "30000", userID: "20000" }]);
+});
+
+test("无法识别的权限不会放行", async () => {
+  const { event } = await createGroupEvent(new PlatformInfo({ qq: { senderRole: "owner" } }));
+  assert.equal(await checkPermission(event, 0 as never), false);
+});
+
+test("结构化指令的参数不会留给后续触发器", async () => {
+  const seen: unknown[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" })
+    .addTrigger({
+      name: "指令",
+      description: "指令",
+      command: { name: "测试", args: [{ name: "值" }] },
+      abort: false,
+      handler: async (event) => void seen.push(event.args),
+    })
+    .addTrigger({
+      name: "正则",
+      description: "正则",
+      regex: /^#测试/,
+      handler: async (event) => void seen.push(event.args),
+    });
+  const { bot } = await createTestBot();
+  const event = new MessageEvent(bot, new MessageBuilder().addTextBlock("#测试 1").build());
+  for (const trigger of plugin.messageTriggers) await trigger.handle(event);
+  assert.deepEqual(seen, [{ 值: "1" }, {}]);
+});
+
+test("交互超时提示发送失败时等待回复仍会结束", async () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  const { bot, adapter } = await createTestBot();
+  adapter.sendPrivateMessage = async () => {
+    throw new Error("发送失败");
+  };
+  const event = new MessageEvent(
+    bot,
+    new Message({
+      senderID: "20000",
+      target: { type: "person", userID: "10000" },
+      messageType: "private",
+    }),
+  );
+  event.plugin = plugin;
+  assert.equal(await event.prompt(undefined, { timeout: 0.01 }), undefined);
+});
+
+test("交互处理函数出错时等待回复结束", async () => {
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" });
+  const { bot } = await createTestBot();
+  const createEvent = () =>
+    new MessageEvent(
+      bot,
+      new Message({
+        senderID: "20000",
+        target: { type: "person", userID: "10000" },
+        messageType: "private",
+      }),
+    );
+  const event = createEvent();
+  event.plugin = plugin;
+  const reply = event.prompt(undefined, {
+    validate: async () => {
+      throw new Error("校验失败");
+    },
+  });
+
+  const answer = createEvent();
+  assert.equal(await plugin.handleInteraction(answer), true);
+  assert.equal(await reply, undefined);
+  assert.equal(plugin.getInteract(answer), undefined);
+});
+
+/**
+ * 创建只有成员冷却的 Bot 和群消息事件
+ * @param groupID 群 ID，不同测试使用不同的群，避免冷却互相影响
+ */
+async function createCooldownBot(groupID: string) {
+  const { bot, adapter } = await createTestBot();
+  bot.getGroupConfig = (id) => ({
+    ...Bot.prototype.getGroupConfig.call(bot, id),
+    groupCD: 0,
+    singleCD: 60_000,
+  });
+  const createEvent = (text: string) =>
+    new MessageEvent(
+      bot,
+      new Message({
+        senderID: "20000",
+        target: { type: "group", groupID },
+        messageType: "group",
+        messageBlocks: [new TextBlock(text)],
+      }),
+    );
+  return { adapter, createEvent };
+}
+
+test("指令执行后开始冷却", async () => {
+  const { createEvent } = await createCooldownBot("30001");
+  let runs = 0;
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addTrigger({
+    name: "指令",
+    description: "指令",
+    command: { name: "测试" },
+    handler: async () => void runs++,
+  });
+  const [trigger] = plugin.messageTriggers;
+  assert.equal(await trigger.handle(createEvent("#测试")), true);
+  assert.equal(await trigger.handle(createEvent("#测试")), true);
+  assert.equal(runs, 1);
+});
+
+test("指令参数解析失败时不开始冷却", async () => {
+  const { adapter, createEvent } = await createCooldownBot("30002");
+  const values: unknown[] = [];
+  const plugin = new Plugin({ id: "test", name: "测试", description: "测试" }).addTrigger({
+    name: "指令",
+    description: "指令",
+    command: { name: "测试", args: [{ name: "值", type: "number" }] },
+    handler: async (event) => void values.push(event.args.值),
+  });
+  const [trigger] = plugin.messageTriggers;
+  assert.equal(await trigger.handle(createEvent("#测试 abc")), true);
+  assert.equal(adapter.sent.length, 1);
+  assert.equal(await trigger.handle(createEvent("#测试 1")), true);
+  assert.deepEqual(values, [1]);
+});
@@ -0,0 +1,142 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { test } from "node:test";
+
+import schedulePlugin from "../plugins/builtin/定时任务.ts";
+import { createTestBot } from "./helpers.ts";
+import "yuzai/client";
+import config from "yuzai/config";
+import Message, { TextBlock } from "yuzai/message";
+import scheduler from "yuzai/scheduler";
+import * as utils from "yuzai/utils";
+
+test("补执行等待第一个 Bot 连接后进行", async () => {
+  const recordFile = path.resolve(config.rootDir, "data", "schedule_last_run.json");
+  await fs.mkdir(path.dirname(recordFile), { recursive: true });
+  await fs.writeFile(recordFile, JSON.stringify({ "test:catchUp": 0 }));
+
+  let runs = 0;
+  scheduler.add("test", "catchUp", "0 0 1 1 *", async () => void runs++, { catchUp: true });
+  await utils.wait(100);
+  assert.equal(runs, 0);
+
+  scheduler.ready();
+  await utils.wait(100);
+  assert.equal(runs, 1);
+  scheduler.removeFrom("test");
+
+  const record = JSON.parse(await fs.readFile(recordFile, "utf8")) as Record<string, number>;
+  assert.ok(record["test:catchUp"] > 0);
+});
+
+test("执行超时时中止任务并视为失败", async () => {
+  let aborted = false;
+  const task = scheduler.add(
+    "test",
+    "timeout",
+    "0 0 1 1 *",
+    (signal) =>
+      new Promise<void>((resolve) =>
+        signal.addEventListener("abort", () => {
+          aborted = true;
+          resolve();
+        }),
+      ),
+    { timeout: 0.05 },
+  );
+  await scheduler.run(task);
+  scheduler.removeFrom("test");
+  assert.equal(aborted, true);
+  assert.ok(task.lastError instanceof Error);
+  assert.equal(task.running, false);
+});
+
+test("超时后仍未结束的任务在禁止重叠时跳过之后的执行", async () => {
+  let runs = 0;
+  let finish = () => {};
+  const task = scheduler.add(
+    "test",
+    "overlap",
+    "0 0 1 1 *",
+    () => {
+      runs++;
+      return new Promise<void>((resolve) => (finish = resolve));
+    },
+    { timeout: 0.05, noOverlap: true },
+  );
+  await scheduler.run(task);
+  assert.equal(task.running, true);
+  await scheduler.run(task);
+  assert.equal(runs, 1);
+
+  finish();
+  await utils.wait(10);
+  await scheduler.run(task);
+  scheduler.removeFrom("test");
+  assert.equal(runs, 2);
+  finish();
+});
+
+test("暂停后不再计划执行，恢复后重新计划", () => {
+  const task = scheduler.add("test", "pause", "0 0 1 1 *", async () => {});
+  const info = () => scheduler.list().find((i) => i.id === task.id);
+  assert.ok(info()?.nextRunTime);
+
+  assert.equal(scheduler.pause(task), true);
+  assert.equal(scheduler.pause(task), false);
+  assert.equal(info()?.paused, true);
+  assert.equal(info()?.nextRunTime, undefined);
+
+  assert.equal(scheduler.resume(task), true);
+  assert.equal(scheduler.resume(task), false);
+  assert.ok(info()?.nextRunTime);
+  scheduler.removeFrom("test");
+  assert.equal(scheduler.hasFrom("test"), false);
+});
+
+test("立即执行记录耗时和错误", async () => {
+  const error = new Error("执行失败");
+  const task = scheduler.add("test", "run", "0 0 1 1 *", async () => {
+    throw error;
+  });
+  assert.deepEqual(
+    scheduler.find("run").map((i) => i.id),
+    [task.id],
+  );
+  await scheduler.run(task);
+  const info = scheduler.find(task.id)[0];
+  scheduler.removeFrom("test");
+  assert.equal(info.lastError, error);
+  assert.equal(typeof info.lastDuration, "number");
+  assert.ok(info.lastRunTime);
+});
+
+test("主人可以通过指令暂停和立即执行定时任务", async () => {
+  let runs = 0;
+  scheduler.add("test", "指令任务", "0 0 1 1 *", async () => void runs++);
+  const { bot, adapter } = await createTestBot(new Map([[schedulePlugin.id, schedulePlugin]]));
+  bot._masters.push("20000");
+  const send = async (text: string) => {
+    const count = adapter.sent.length;
+    await bot.onMessage(
+      new Message({
+        senderID: "20000",
+        target: { type: "person", userID: "10000" },
+        messageType: "private",
+        messageBlocks: [new TextBlock(text)],
+      }),
+    );
+    return adapter.sent.slice(count).map(({ message }) => message.toString());
+  };
+
+  assert.match((await send("#定时任务 列表")).join("\n"), /指令任务（test）0 0 1 1 \* 等待中/);
+  assert.deepEqual(await send("#定时任务 暂停 指令任务"), ["已暂停定时任务 指令任务"]);
+  assert.match((await send("#定时任务 详情 指令任务")).join("\n"), /状态：已暂停/);
+  assert.deepEqual(await send("#定时任务 执行 指令任务"), [
+    "开始执行定时任务 指令任务",
+    "定时任务 指令任务 执行完成",
+  ]);
+  assert.equal(runs, 1);
+  scheduler.removeFrom("test");
+});
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { after, test } from "node:test";
+
+import { createTestBot } from "./helpers.ts";
+import client from "yuzai/client";
+import config from "yuzai/config";
+import scheduler from "yuzai/scheduler";
+import * as system from "yuzai/system";
+
+const recordFile = path.resolve(config.rootDir, "data", "system_action.json");
+
+after(() => fs.rm(recordFile, { force: true }));
+
+test("按照配置添加系统定时任务，连接时通知主人上次的系统操作", async (t) => {
+  const schedule = config.system.schedule as {
+    updateTime: number;
+    restartTime: number;
+    updateCron: string;
+    restartCron: string;
+    stopCron: string;
+  };
+  const original = { ...schedule };
+  t.after(() => Object.assign(schedule, original));
+  Object.assign(schedule, {
+    updateTime: 0,
+    restartTime: 0,
+    updateCron: "",
+    restartCron: "0 4 * * *",
+    stopCron: "0 2 1 1 *",
+  });
+  // Bot 新建时会调用 onBotConnect，需要在读取操作记录之前创建
+  const { bot, adapter } = await createTestBot();
+  bot._masters.push("20000");
+  await fs.mkdir(path.dirname(recordFile), { recursive: true });
+  await fs.writeFile(recordFile, JSON.stringify({ action: "restart", time: Date.now() }));
+
+  await system.startSystemSchedules();
+  t.after(() => scheduler.removeFrom("system"));
+  assert.deepEqual(
+    scheduler
+      .list()
+      .filter((task) => task.from === "system")
+      .map((task) => `${task.name} ${task.cron}`),
+    ["定时重启 0 4 * * *", "定时关机 0 2 1 1 *"],
+  );
+  // 记录读取后删除，不会在下次启动时重复通知
+  await assert.rejects(fs.access(recordFile));
+
+  await system.onBotConnect(bot);
+  await system.onBotConnect(bot);
+  // 配置文件中的主人也会收到通知，只检查测试添加的主人
+  const sent = adapter.sent.filter(
+    ({ target }) => target.type === "person" && target.userID === "20000",
+  );
+  assert.equal(sent.length, 1);
+  assert.match(sent[0].message.toString(), /^雨仔已于 .+ 重启完成$/);
+});
+
+// 重启后会一直保持执行中的状态，需要放在最后
+test("重启时记录操作并退出，退出过程中跳过其他系统操作", async (t) => {
+  const exits = t.mock.method(client, "gracefulExit", () => {});
+
+  await system.restart();
+  assert.deepEqual(
+    exits.mock.calls.map((call) => call.arguments),
+    [[system.restartExitCode]],
+  );
+  const record = JSON.parse(await fs.readFile(recordFile, "utf8"));
+  assert.equal(record.action, "restart");
+
+  await system.stop();
+  await system.restart();
+  assert.equal(exits.mock.callCount(), 1);
+});